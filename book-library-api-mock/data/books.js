@@ -1,5 +1,5 @@
-// In-memory data store for books
-let books = [
+// Catalog a new store starts with
+const SEED_BOOKS = [
   {
     id: "1",
     title: "The Pragmatic Programmer",
@@ -58,64 +58,270 @@ let books = [
   }
 ];
 
-let nextId = 8;
+// Fresh store state: the seed catalog, next id and per-book versions
+const seedState = () => ({
+  books: SEED_BOOKS.map(book => ({ ...book })),
+  nextId: SEED_BOOKS.length + 1,
+  versions: {}
+});
 
-// Helper functions for data operations
-const getAllBooks = () => {
-  return [...books];
-};
+// Fields GET /books can sort by
+const SORTABLE_FIELDS = ['id', 'title', 'author', 'publishedYear'];
 
-const getBookById = (id) => {
-  return books.find(book => book.id === id);
+const compareValues = (a, b) => {
+  // Books without the field (e.g. a cleared publishedYear) sort last
+  if (a === undefined || b === undefined) return (a === undefined) - (b === undefined);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  // Ids are numeric strings; compare them as numbers so "10" sorts after "9"
+  if (/^\d+$/.test(a) && /^\d+$/.test(b)) return Number(a) - Number(b);
+  return String(a).localeCompare(String(b));
 };
 
-const createBook = (bookData) => {
-  const newBook = {
-    id: String(nextId++),
-    title: bookData.title,
-    author: bookData.author,
-    isbn: bookData.isbn,
-    publishedYear: bookData.publishedYear || new Date().getFullYear(),
-    available: bookData.available !== undefined ? bookData.available : true
-  };
-  books.push(newBook);
-  return newBook;
-};
+// Relevance weight per field for a whole-word match; a partial match scores 1
+const SEARCH_WEIGHTS = { title: 3, author: 2 };
+// An ISBN match is the most specific signal a query can carry
+const ISBN_MATCH_WEIGHT = 5;
+// Shorter digit runs would match almost every ISBN
+const MIN_ISBN_TOKEN_LENGTH = 4;
+
+const tokenize = (text) => String(text).toLowerCase().split(/\s+/).filter(Boolean);
+
+const normalizeIsbn = (isbn) => String(isbn || '').replace(/[-\s]/g, '');
+
+// Fields a merge patch may remove by sending null
+const CLEARABLE_FIELDS = ['isbn', 'publishedYear'];
+
+/**
+ * Create the book store: every read and write of the catalog goes through it.
+ * State is loaded from `storage` (or seeded when it is empty) and saved back
+ * after every change.
+ */
+const createBookStore = (storage) => {
+  let state = storage.load();
+  if (!state) {
+    state = seedState();
+    storage.save(state);
+  }
 
-const updateBook = (id, bookData) => {
-  const index = books.findIndex(book => book.id === id);
-  if (index === -1) return null;
-  
-  books[index] = {
-    ...books[index],
-    ...bookData,
-    id: books[index].id // Ensure ID cannot be changed
+  const persist = () => storage.save(state);
+
+  const getAllBooks = () => {
+    return [...state.books];
+  };
+
+  /**
+   * Filter, sort and paginate books.
+   * Returns the requested page and the total number of matching books.
+   */
+  const queryBooks = ({ author, available, publishedYearMin, publishedYearMax, sort, limit, offset = 0 } = {}) => {
+    let result = state.books.filter(book =>
+      (author === undefined || book.author.toLowerCase().includes(author.toLowerCase())) &&
+      (available === undefined || book.available === available) &&
+      (publishedYearMin === undefined || book.publishedYear >= publishedYearMin) &&
+      (publishedYearMax === undefined || book.publishedYear <= publishedYearMax)
+    );
+
+    if (sort) {
+      const direction = sort.direction === 'desc' ? -1 : 1;
+      result = [...result].sort((a, b) => direction * compareValues(a[sort.field], b[sort.field]));
+    }
+
+    const end = limit === undefined ? undefined : offset + limit;
+    return { items: result.slice(offset, end), total: result.length };
+  };
+
+  /**
+   * Case-insensitive, tokenized search over title, author and normalized ISBN.
+   * A book matches when at least one token matches; results are ordered by
+   * relevance score (highest first), then by id.
+   */
+  const searchBooks = (q) => {
+    const tokens = tokenize(q);
+    const hits = [];
+
+    for (const book of state.books) {
+      let score = 0;
+      const matchedFields = new Set();
+
+      for (const token of tokens) {
+        for (const [field, weight] of Object.entries(SEARCH_WEIGHTS)) {
+          const words = tokenize(book[field]);
+          if (words.includes(token)) {
+            score += weight;
+            matchedFields.add(field);
+          } else if (words.some(word => word.includes(token))) {
+            score += 1;
+            matchedFields.add(field);
+          }
+        }
+
+        const isbnToken = normalizeIsbn(token);
+        if (isbnToken.length >= MIN_ISBN_TOKEN_LENGTH && normalizeIsbn(book.isbn).includes(isbnToken)) {
+          score += ISBN_MATCH_WEIGHT;
+          matchedFields.add('isbn');
+        }
+      }
+
+      if (score > 0) {
+        hits.push({ score, matchedFields: [...matchedFields], book });
+      }
+    }
+
+    return hits.sort((a, b) => b.score - a.score || compareValues(a.book.id, b.book.id));
+  };
+
+  // Versions are bumped on every change; books without an entry are at version 1
+  const bumpVersion = (id) => {
+    state.versions[id] = (state.versions[id] || 1) + 1;
+  };
+
+  // Strong ETag for the current version of a book, or null when it does not exist
+  const getBookETag = (id) => {
+    if (!getBookById(id)) return null;
+    return `"${state.versions[id] || 1}"`;
+  };
+
+  const getBookById = (id) => {
+    return state.books.find(book => book.id === id);
+  };
+
+  // Appends a book with the next id; callers persist
+  const insertBook = (bookData) => {
+    const newBook = {
+      id: String(state.nextId++),
+      title: bookData.title,
+      author: bookData.author,
+      isbn: bookData.isbn,
+      publishedYear: bookData.publishedYear || new Date().getFullYear(),
+      available: bookData.available !== undefined ? bookData.available : true
+    };
+    state.books.push(newBook);
+    state.versions[newBook.id] = 1;
+    return newBook;
   };
-  return books[index];
-};
 
-const deleteBook = (id) => {
-  const index = books.findIndex(book => book.id === id);
-  if (index === -1) return false;
-  
-  books.splice(index, 1);
-  return true;
+  const createBook = (bookData) => {
+    const newBook = insertBook(bookData);
+    persist();
+    return newBook;
+  };
+
+  const updateBook = (id, bookData) => {
+    const index = state.books.findIndex(book => book.id === id);
+    if (index === -1) return null;
+
+    // Only apply fields that were actually sent, so a partial update
+    // does not wipe the fields it omits
+    const changes = Object.fromEntries(
+      Object.entries(bookData).filter(([, value]) => value !== undefined)
+    );
+
+    state.books[index] = {
+      ...state.books[index],
+      ...changes,
+      id: state.books[index].id // Ensure ID cannot be changed
+    };
+    bumpVersion(id);
+    persist();
+    return state.books[index];
+  };
+
+  /**
+   * Apply an RFC 7396 merge patch: null removes a field, any other value replaces it.
+   * The patch is expected to be validated already.
+   */
+  const patchBook = (id, patch) => {
+    const index = state.books.findIndex(book => book.id === id);
+    if (index === -1) return null;
+
+    const patched = { ...state.books[index] };
+    for (const [field, value] of Object.entries(patch)) {
+      if (value === null) delete patched[field];
+      else patched[field] = value;
+    }
+    patched.id = state.books[index].id;
+
+    state.books[index] = patched;
+    bumpVersion(id);
+    persist();
+    return patched;
+  };
+
+  const deleteBook = (id) => {
+    const index = state.books.findIndex(book => book.id === id);
+    if (index === -1) return false;
+
+    state.books.splice(index, 1);
+    delete state.versions[id];
+    persist();
+    return true;
+  };
+
+  // Copy of the whole store, so a batch of changes can be undone as a unit
+  const createSnapshot = () => structuredClone(state);
+
+  const restoreSnapshot = (snapshot) => {
+    state = structuredClone(snapshot);
+    persist();
+  };
+
+  // Replace the whole catalog with `books` (the seed catalog by default); ids restart at 1
+  const resetBooks = (books = SEED_BOOKS) => {
+    state = { books: [], nextId: 1, versions: {} };
+    const inserted = books.map(insertBook);
+    persist();
+    return inserted;
+  };
+
+  // Snapshots saved by name through the admin API; kept in memory only
+  const namedSnapshots = new Map();
+
+  const saveNamedSnapshot = (name) => {
+    namedSnapshots.set(name, createSnapshot());
+  };
+
+  // Returns false when no snapshot has that name
+  const restoreNamedSnapshot = (name) => {
+    if (!namedSnapshots.has(name)) return false;
+    restoreSnapshot(namedSnapshots.get(name));
+    return true;
+  };
+
+  return {
+    getAllBooks,
+    queryBooks,
+    searchBooks,
+    getBookById,
+    getBookETag,
+    createBook,
+    updateBook,
+    patchBook,
+    deleteBook,
+    createSnapshot,
+    restoreSnapshot,
+    resetBooks,
+    saveNamedSnapshot,
+    restoreNamedSnapshot
+  };
 };
 
 // ISBN validation helper
 const isValidISBN = (isbn) => {
-  if (!isbn) return false;
+  if (!isbn || typeof isbn !== 'string') return false;
   // Basic validation for ISBN-10 or ISBN-13 format
   const cleanISBN = isbn.replace(/[-\s]/g, '');
   return /^(?:\d{10}|\d{13})$/.test(cleanISBN);
 };
 
-module.exports = {
-  getAllBooks,
-  getBookById,
-  createBook,
-  updateBook,
-  deleteBook,
-  isValidISBN
+// publishedYear validation helper: an integer between 1000 and next year
+const isValidPublishedYear = (year) => {
+  return Number.isInteger(year) && year >= 1000 && year <= new Date().getFullYear() + 1;
 };
 
+module.exports = {
+  SORTABLE_FIELDS,
+  CLEARABLE_FIELDS,
+  createBookStore,
+  isValidISBN,
+  isValidPublishedYear
+};
@@ -0,0 +1,33 @@
+// User store for the mock API
+// Override with MOCK_USERS='[{"username":"...","password":"...","role":"viewer"}]'
+const ROLES = ['viewer', 'librarian', 'admin'];
+
+const defaultUsers = [
+  { username: 'viewer', password: 'viewer123', role: 'viewer' },
+  { username: 'librarian', password: 'librarian123', role: 'librarian' },
+  { username: 'admin', password: 'test123', role: 'admin' }
+];
+
+const loadUsers = () => {
+  if (!process.env.MOCK_USERS) return defaultUsers;
+
+  const users = JSON.parse(process.env.MOCK_USERS);
+  users.forEach(user => {
+    if (!user.username || !user.password || !ROLES.includes(user.role)) {
+      throw new Error(`Invalid MOCK_USERS entry for "${user.username}": role must be one of ${ROLES.join(', ')}`);
+    }
+  });
+  return users;
+};
+
+const users = loadUsers();
+
+// Returns the matching user, or undefined for unknown username/password
+const findUser = (username, password) => {
+  return users.find(user => user.username === username && user.password === password);
+};
+
+module.exports = {
+  ROLES,
+  findUser
+};
@@ -25,5 +25,17 @@ const authenticateToken = (req, res, next) => {
   }
 };
 
-module.exports = { authenticateToken, JWT_SECRET };
+// Must run after authenticateToken; rejects users whose role is not listed
+const authorizeRoles = (...roles) => (req, res, next) => {
+  if (!req.user || !roles.includes(req.user.role)) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: `Role '${req.user && req.user.role}' is not allowed to ${req.method} ${req.baseUrl}${req.route ? req.route.path : ''}`,
+      requiredRoles: roles
+    });
+  }
+  next();
+};
+
+module.exports = { authenticateToken, authorizeRoles, JWT_SECRET };
 
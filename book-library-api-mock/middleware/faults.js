@@ -0,0 +1,157 @@
+// Fault injection for testing clients against a slow or flaky API
+
+const METHODS = ['*', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const RULE_FIELDS = [
+  'method', 'path', 'latencyMs', 'status', 'retryAfter', 'probability', 'drop', 'malformedJson', 'times'
+];
+const MAX_LATENCY_MS = 30000;
+
+// Paths that are never faulted, so faults can always be inspected and cleared
+const EXEMPT_PATHS = /^\/(?:__admin|health)(?:\/|$)/;
+
+const isLatency = (value) => Number.isInteger(value) && value >= 0 && value <= MAX_LATENCY_MS;
+
+// "/books/:id" matches one segment per parameter; "*" matches anything
+const pathPattern = (path) => {
+  const escaped = path.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/:\w+/g, '[^/]+').replace(/\*/g, '.*')}/?$`);
+};
+
+/**
+ * Validate one fault rule.
+ * Returns the error message, or null when the rule is valid.
+ */
+const faultRuleError = (rule) => {
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    return 'Rule must be an object';
+  }
+
+  const unknown = Object.keys(rule).find(field => !RULE_FIELDS.includes(field));
+  if (unknown) return `Unknown field '${unknown}'`;
+
+  const { method, path, latencyMs, status, retryAfter, probability, drop, malformedJson, times } = rule;
+
+  if (method !== undefined && !METHODS.includes(method)) {
+    return `Invalid method. Must be one of: ${METHODS.join(', ')}`;
+  }
+  if (path !== undefined && (typeof path !== 'string' || !(path === '*' || path.startsWith('/')))) {
+    return "Invalid path. Must be '*' or start with '/'";
+  }
+  if (latencyMs !== undefined) {
+    const range = typeof latencyMs === 'object' && latencyMs !== null;
+    const valid = range
+      ? isLatency(latencyMs.min) && isLatency(latencyMs.max) && latencyMs.min <= latencyMs.max
+      : isLatency(latencyMs);
+    if (!valid) {
+      return `Invalid latencyMs. Must be an integer or { min, max } between 0 and ${MAX_LATENCY_MS}`;
+    }
+  }
+  if (status !== undefined && !(Number.isInteger(status) && status >= 400 && status <= 599)) {
+    return 'Invalid status. Must be an integer between 400 and 599';
+  }
+  if (retryAfter !== undefined && !(Number.isInteger(retryAfter) && retryAfter >= 0 && status !== undefined)) {
+    return 'Invalid retryAfter. Must be a non-negative integer (seconds) on a rule with a status';
+  }
+  if (probability !== undefined && !(typeof probability === 'number' && probability >= 0 && probability <= 1)) {
+    return 'Invalid probability. Must be a number between 0 and 1';
+  }
+  for (const [field, value] of Object.entries({ drop, malformedJson })) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      return `Invalid ${field}. Must be a boolean`;
+    }
+  }
+  if (times !== undefined && !(Number.isInteger(times) && times >= 1)) {
+    return 'Invalid times. Must be a positive integer';
+  }
+  if (latencyMs === undefined && status === undefined && !drop && !malformedJson) {
+    return 'Rule has no fault: set latencyMs, status, drop or malformedJson';
+  }
+
+  return null;
+};
+
+const delayFor = ({ latencyMs }) => {
+  if (latencyMs === undefined) return 0;
+  if (typeof latencyMs === 'number') return latencyMs;
+  return latencyMs.min + Math.floor(Math.random() * (latencyMs.max - latencyMs.min + 1));
+};
+
+/**
+ * Create the fault injector: a list of rules and the middleware that applies
+ * them. The first rule matching a request's method and path fires with its
+ * `probability` (default 1), at most `times` times when set. A fired rule
+ * waits `latencyMs`, then drops the connection, answers `status` (with a
+ * `Retry-After` header when `retryAfter` is set), or lets the route run and
+ * truncates its JSON body.
+ */
+const createFaultInjector = () => {
+  let rules = [];
+
+  const getRules = () => rules.map(({ pattern, ...rule }) => rule);
+
+  const setRules = (newRules) => {
+    rules = newRules.map(rule => ({
+      ...rule,
+      method: rule.method || '*',
+      path: rule.path || '*',
+      pattern: pathPattern(rule.path || '*')
+    }));
+  };
+
+  const clearRules = () => {
+    rules = [];
+  };
+
+  const findFiringRule = (req) => {
+    const rule = rules.find(r =>
+      (r.method === '*' || r.method === req.method) &&
+      r.pattern.test(req.path) &&
+      (r.times === undefined || r.times > 0)
+    );
+    if (!rule || Math.random() >= (rule.probability ?? 1)) return null;
+
+    if (rule.times !== undefined) rule.times -= 1;
+    return rule;
+  };
+
+  const middleware = async (req, res, next) => {
+    req.faultInjector = injector;
+    if (EXEMPT_PATHS.test(req.path)) return next();
+
+    const rule = findFiringRule(req);
+    if (!rule) return next();
+
+    const delay = delayFor(rule);
+    if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+
+    if (rule.drop) {
+      return req.socket.destroy();
+    }
+
+    if (rule.status !== undefined) {
+      if (rule.retryAfter !== undefined) res.set('Retry-After', String(rule.retryAfter));
+      return res.status(rule.status).json({
+        error: 'Injected Fault',
+        message: `Fault injected for ${req.method} ${req.path}`
+      });
+    }
+
+    if (rule.malformedJson) {
+      // Send the route's JSON with the last character cut off
+      res.json = (body) => {
+        res.type('application/json');
+        return res.send(JSON.stringify(body).slice(0, -1));
+      };
+    }
+
+    next();
+  };
+
+  const injector = { getRules, setRules, clearRules, middleware };
+  return injector;
+};
+
+module.exports = {
+  createFaultInjector,
+  faultRuleError
+};
@@ -0,0 +1,27 @@
+// True when an If-Match value ("*" or a comma-separated ETag list) matches etag
+const ifMatchSatisfied = (ifMatch, etag) => {
+  const candidates = ifMatch.split(',').map(tag => tag.trim());
+  return candidates.includes('*') || candidates.includes(etag);
+};
+
+// 412 response body for an If-Match that does not match
+const preconditionFailed = (ifMatch, etag) => ({
+  error: 'Precondition Failed',
+  message: `If-Match ${ifMatch} does not match the current ETag ${etag}`
+});
+
+// Rejects a write whose If-Match header does not list the book's current ETag.
+// Requests without If-Match, and unknown ids (left to the route's 404), pass through.
+const checkIfMatch = (req, res, next) => {
+  const ifMatch = req.headers['if-match'];
+  const etag = req.bookStore.getBookETag(req.params.id);
+  if (!ifMatch || !etag || ifMatchSatisfied(ifMatch, etag)) return next();
+
+  return res.status(412).json(preconditionFailed(ifMatch, etag));
+};
+
+module.exports = {
+  checkIfMatch,
+  ifMatchSatisfied,
+  preconditionFailed
+};
@@ -0,0 +1,42 @@
+const { createMemoryStorage } = require('../storage/memory');
+const { createBookStore } = require('../data/books');
+
+// Tenant ids end up in logs and test reports, so keep them short and plain
+const TENANT_ID_PATTERN = /^[\w.-]{1,64}$/;
+
+// Oldest tenants are dropped beyond this, so long-lived servers stay small
+const MAX_TENANTS = 1000;
+
+/**
+ * Makes the book store available to route handlers as req.bookStore.
+ * A request with an X-Tenant-Id header gets that tenant's own store, created
+ * from the seed catalog on first use and kept in memory whatever STORAGE is;
+ * requests without one share `store`.
+ */
+const attachBookStore = (store, createTenantStore = () => createBookStore(createMemoryStorage())) => {
+  const tenants = new Map();
+
+  return (req, res, next) => {
+    const tenantId = req.get('X-Tenant-Id');
+    if (tenantId === undefined) {
+      req.bookStore = store;
+      return next();
+    }
+
+    if (!TENANT_ID_PATTERN.test(tenantId)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'X-Tenant-Id must be 1-64 letters, digits, "_", "." or "-"'
+      });
+    }
+
+    if (!tenants.has(tenantId)) {
+      if (tenants.size >= MAX_TENANTS) tenants.delete(tenants.keys().next().value);
+      tenants.set(tenantId, createTenantStore());
+    }
+    req.bookStore = tenants.get(tenantId);
+    next();
+  };
+};
+
+module.exports = { attachBookStore };
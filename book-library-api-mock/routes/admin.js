@@ -0,0 +1,231 @@
+const express = require('express');
+const { authenticateToken, authorizeRoles } = require('../middleware/auth');
+const { createPayloadError } = require('../utils/book-validation');
+const { faultRuleError } = require('../middleware/faults');
+
+// Test-support endpoints: store state and fault injection (admin only)
+const router = express.Router();
+
+router.use(authenticateToken, authorizeRoles('admin'));
+
+const MAX_SEED_BOOKS = 1000;
+const MAX_FAULT_RULES = 50;
+
+// Snapshot names end up in URLs (/restore/:name), so keep them URL-safe
+const SNAPSHOT_NAME_PATTERN = /^[\w.-]{1,64}$/;
+
+/**
+ * Validate a POST /__admin/seed body: { books: [payload, ...] }.
+ * Returns the 400 response body, or null when every book is valid.
+ */
+const seedRequestError = (body) => {
+  const books = body && body.books;
+
+  if (!Array.isArray(books)) {
+    return { error: 'Bad Request', message: 'Request body must be an object with a books array' };
+  }
+  if (books.length > MAX_SEED_BOOKS) {
+    return { error: 'Bad Request', message: `At most ${MAX_SEED_BOOKS} books can be seeded at once` };
+  }
+
+  for (const [index, book] of books.entries()) {
+    const validationError = createPayloadError(book || {});
+    if (validationError) {
+      return { error: 'Bad Request', message: `Book ${index}: ${validationError.message}` };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * POST /__admin/reset
+ * Restore the seed catalog (the seven default books, ids 1-7)
+ */
+router.post('/reset', (req, res) => {
+  try {
+    const books = req.bookStore.resetBooks();
+
+    res.status(200).json({
+      success: true,
+      message: 'Store reset to the seed catalog',
+      count: books.length,
+      data: books
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /__admin/seed
+ * Replace the catalog with the given books; ids restart at 1
+ * Body: { books: [{ title, author, isbn, publishedYear?, available? }] }
+ */
+router.post('/seed', (req, res) => {
+  try {
+    const validationError = seedRequestError(req.body);
+    if (validationError) {
+      return res.status(400).json(validationError);
+    }
+
+    const books = req.bookStore.resetBooks(
+      req.body.books.map(({ title, author, isbn, publishedYear, available }) => ({
+        title,
+        author,
+        isbn,
+        publishedYear,
+        available
+      }))
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Store seeded',
+      count: books.length,
+      data: books
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /__admin/snapshot
+ * Save the current state under a name (overwrites an existing snapshot)
+ * Body: { name: string }
+ */
+router.post('/snapshot', (req, res) => {
+  try {
+    const name = req.body && req.body.name;
+    if (typeof name !== 'string' || !SNAPSHOT_NAME_PATTERN.test(name)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid snapshot name. Use 1-64 letters, digits, "_", "-" or "."'
+      });
+    }
+
+    req.bookStore.saveNamedSnapshot(name);
+
+    res.status(201).json({
+      success: true,
+      message: `Snapshot '${name}' saved`,
+      name
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /__admin/restore/:name
+ * Put the store back into the state saved under :name
+ */
+router.post('/restore/:name', (req, res) => {
+  try {
+    const { name } = req.params;
+
+    if (!req.bookStore.restoreNamedSnapshot(name)) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: `Snapshot '${name}' not found`
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Snapshot '${name}' restored`,
+      name
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * Validate a PUT /__admin/faults body: { rules: [rule, ...] }.
+ * Returns the 400 response body, or null when every rule is valid.
+ */
+const faultsRequestError = (body) => {
+  const rules = body && body.rules;
+
+  if (!Array.isArray(rules)) {
+    return { error: 'Bad Request', message: 'Request body must be an object with a rules array' };
+  }
+  if (rules.length > MAX_FAULT_RULES) {
+    return { error: 'Bad Request', message: `At most ${MAX_FAULT_RULES} fault rules are allowed` };
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    const message = faultRuleError(rule);
+    if (message) {
+      return { error: 'Bad Request', message: `Rule ${index}: ${message}` };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * GET /__admin/faults
+ * List the active fault rules (`times` counts down as rules fire)
+ */
+router.get('/faults', (req, res) => {
+  res.status(200).json({
+    success: true,
+    rules: req.faultInjector.getRules()
+  });
+});
+
+/**
+ * PUT /__admin/faults
+ * Replace the fault rules; /__admin and /health are never faulted
+ * Body: { rules: [{ method?, path?, latencyMs?, status?, retryAfter?, probability?, drop?, malformedJson?, times? }] }
+ */
+router.put('/faults', (req, res) => {
+  try {
+    const validationError = faultsRequestError(req.body);
+    if (validationError) {
+      return res.status(400).json(validationError);
+    }
+
+    req.faultInjector.setRules(req.body.rules);
+
+    res.status(200).json({
+      success: true,
+      rules: req.faultInjector.getRules()
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /__admin/faults
+ * Remove every fault rule
+ */
+router.delete('/faults', (req, res) => {
+  req.faultInjector.clearRules();
+
+  res.status(200).json({
+    success: true,
+    rules: []
+  });
+});
+
+module.exports = router;
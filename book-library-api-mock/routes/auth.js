@@ -1,13 +1,10 @@
 const express = require('express');
 const jwt = require('jsonwebtoken');
 const { JWT_SECRET } = require('../middleware/auth');
+const { findUser } = require('../data/users');
 
 const router = express.Router();
 
-// Hard-coded credentials for mock API
-const VALID_USERNAME = 'admin';
-const VALID_PASSWORD = 'test123';
-
 /**
  * POST /auth/login
  * Login endpoint that returns a JWT token
@@ -25,10 +22,11 @@ router.post('/login', (req, res) => {
   }
 
   // Check credentials
-  if (username === VALID_USERNAME && password === VALID_PASSWORD) {
+  const user = findUser(username, password);
+  if (user) {
     // Generate JWT token (expires in 24 hours)
     const token = jwt.sign(
-      { username: username, role: 'admin' },
+      { username: user.username, role: user.role },
       JWT_SECRET,
       { expiresIn: '24h' }
     );
@@ -38,8 +36,8 @@ router.post('/login', (req, res) => {
       token: token,
       expiresIn: '24h',
       user: {
-        username: username,
-        role: 'admin'
+        username: user.username,
+        role: user.role
       }
     });
   } else {
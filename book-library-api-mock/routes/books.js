@@ -1,27 +1,458 @@
 const express = require('express');
 const {
-  getAllBooks,
-  getBookById,
-  createBook,
-  updateBook,
-  deleteBook,
-  isValidISBN
+  SORTABLE_FIELDS,
+  CLEARABLE_FIELDS,
+  isValidISBN,
+  isValidPublishedYear
 } = require('../data/books');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, authorizeRoles } = require('../middleware/auth');
+const { parseCsv, toCsv } = require('../utils/csv');
+const {
+  INVALID_ISBN_MESSAGE,
+  invalidPublishedYearMessage,
+  createPayloadError,
+  updatePayloadError
+} = require('../utils/book-validation');
+const {
+  checkIfMatch,
+  ifMatchSatisfied,
+  preconditionFailed
+} = require('../middleware/preconditions');
 
+// Handlers read and write books through req.bookStore (see middleware/store.js)
 const router = express.Router();
 
+// Role requirements for write operations
+const WRITE_ROLES = ['librarian', 'admin'];
+const DELETE_ROLES = ['admin'];
+const canWrite = authorizeRoles(...WRITE_ROLES);
+const canDelete = authorizeRoles(...DELETE_ROLES);
+
+const MAX_PAGE_SIZE = 100;
+
+const parseInteger = (value) => (/^\d+$/.test(value) ? Number(value) : NaN);
+
+/**
+ * Parse and validate GET /books query parameters.
+ * Returns { query } on success or { error } with a message for a 400 response.
+ */
+const parseListQuery = (params) => {
+  const query = {};
+
+  if (params.limit !== undefined) {
+    query.limit = parseInteger(params.limit);
+    if (!(query.limit >= 1 && query.limit <= MAX_PAGE_SIZE)) {
+      return { error: `Invalid limit. Must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+    }
+  }
+
+  if (params.offset !== undefined) {
+    query.offset = parseInteger(params.offset);
+    if (Number.isNaN(query.offset)) {
+      return { error: 'Invalid offset. Must be a non-negative integer' };
+    }
+  }
+
+  if (params.author !== undefined) {
+    query.author = String(params.author);
+  }
+
+  if (params.available !== undefined) {
+    if (params.available !== 'true' && params.available !== 'false') {
+      return { error: 'Invalid available. Must be true or false' };
+    }
+    query.available = params.available === 'true';
+  }
+
+  for (const key of ['publishedYearMin', 'publishedYearMax']) {
+    if (params[key] !== undefined) {
+      query[key] = parseInteger(params[key]);
+      if (Number.isNaN(query[key])) {
+        return { error: `Invalid ${key}. Must be a non-negative integer` };
+      }
+    }
+  }
+
+  if (params.sort !== undefined) {
+    const [field, direction = 'asc'] = String(params.sort).split(':');
+    if (!SORTABLE_FIELDS.includes(field) || !['asc', 'desc'].includes(direction)) {
+      return { error: `Invalid sort. Use <field>:asc|desc with field one of ${SORTABLE_FIELDS.join(', ')}` };
+    }
+    query.sort = { field, direction };
+  }
+
+  return { query };
+};
+
 /**
  * GET /books
- * Get all books
+ * List books with optional filtering, sorting and pagination
+ * Query: limit, offset, author, available, publishedYearMin, publishedYearMax, sort=field:asc|desc
+ * Without limit every matching book is returned
  */
 router.get('/', (req, res) => {
   try {
-    const books = getAllBooks();
+    const { query, error } = parseListQuery(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error
+      });
+    }
+
+    const { items, total } = req.bookStore.queryBooks(query);
+    const offset = query.offset || 0;
+    res.status(200).json({
+      success: true,
+      count: items.length,
+      data: items,
+      pagination: {
+        total,
+        offset,
+        limit: query.limit === undefined ? null : query.limit,
+        hasMore: offset + items.length < total
+      }
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message
+    });
+  }
+});
+
+const MAX_BULK_OPERATIONS = 100;
+
+const BULK_OPERATIONS = ['create', 'update', 'delete'];
+
+const notFound = (id) => ({
+  error: 'Not Found',
+  message: `Book with ID ${id} not found`
+});
+
+/**
+ * Apply one bulk operation with the same rules as the single-book routes.
+ * Returns the per-item result: HTTP-like status plus the book or the error body.
+ */
+const applyBulkOperation = (store, operation, role) => {
+  const { op, id, ifMatch } = operation;
+  const data = operation.data || {};
+  const requiredRoles = op === 'delete' ? DELETE_ROLES : WRITE_ROLES;
+
+  if (!requiredRoles.includes(role)) {
+    return {
+      status: 403,
+      error: {
+        error: 'Forbidden',
+        message: `Role '${role}' is not allowed to ${op} books`,
+        requiredRoles
+      }
+    };
+  }
+
+  if (op === 'create') {
+    const validationError = createPayloadError(data);
+    if (validationError) return { status: 400, error: validationError };
+
+    const { title, author, isbn, publishedYear, available } = data;
+    const book = store.createBook({ title, author, isbn, publishedYear, available });
+    return { status: 201, id: book.id, data: book };
+  }
+
+  const bookId = String(id);
+  const etag = store.getBookETag(bookId);
+  if (!etag) return { status: 404, id: bookId, error: notFound(bookId) };
+  if (ifMatch && !ifMatchSatisfied(ifMatch, etag)) {
+    return { status: 412, id: bookId, error: preconditionFailed(ifMatch, etag) };
+  }
+
+  if (op === 'update') {
+    const validationError = updatePayloadError(data);
+    if (validationError) return { status: 400, id: bookId, error: validationError };
+
+    const { title, author, isbn, publishedYear, available } = data;
+    const book = store.updateBook(bookId, { title, author, isbn, publishedYear, available });
+    return { status: 200, id: bookId, data: book };
+  }
+
+  store.deleteBook(bookId);
+  return { status: 200, id: bookId };
+};
+
+/**
+ * Validate the POST /books/bulk envelope. Returns an error message or null.
+ */
+const bulkRequestError = (operations) => {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return 'operations must be a non-empty array';
+  }
+  if (operations.length > MAX_BULK_OPERATIONS) {
+    return `At most ${MAX_BULK_OPERATIONS} operations are allowed per request`;
+  }
+
+  for (const [index, operation] of operations.entries()) {
+    if (!operation || !BULK_OPERATIONS.includes(operation.op)) {
+      return `operations[${index}].op must be one of ${BULK_OPERATIONS.join(', ')}`;
+    }
+    if (operation.op !== 'create' && (operation.id === undefined || operation.id === null)) {
+      return `operations[${index}].id is required for ${operation.op}`;
+    }
+    if (operation.ifMatch !== undefined && typeof operation.ifMatch !== 'string') {
+      return `operations[${index}].ifMatch must be a string`;
+    }
+    if (operation.data !== undefined &&
+        (!operation.data || typeof operation.data !== 'object' || Array.isArray(operation.data))) {
+      return `operations[${index}].data must be an object`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * POST /books/bulk
+ * Apply a batch of create/update/delete operations in order (librarian or admin;
+ * delete items require admin)
+ * Default: partial success, 200 when every item succeeds, otherwise 207
+ * ?atomic=true: all or nothing, 409 and no changes when any item fails
+ */
+router.post('/bulk', authenticateToken, canWrite, (req, res) => {
+  let snapshot = null;
+  try {
+    const { operations } = req.body || {};
+    const atomic = req.query.atomic === 'true';
+
+    const requestError = bulkRequestError(operations);
+    if (requestError) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: requestError
+      });
+    }
+
+    if (atomic) snapshot = req.bookStore.createSnapshot();
+    let results = operations.map((operation, index) => ({
+      index,
+      op: operation.op,
+      ...applyBulkOperation(req.bookStore, operation, req.user.role)
+    }));
+
+    const failed = results.filter(result => result.status >= 400);
+    if (atomic && failed.length > 0) {
+      req.bookStore.restoreSnapshot(snapshot);
+      results = results.map(result => result.status >= 400 ? result : {
+        index: result.index,
+        op: result.op,
+        status: 424,
+        error: {
+          error: 'Failed Dependency',
+          message: `Rolled back because operation ${failed[0].index} failed`
+        }
+      });
+    }
+
+    const succeeded = results.filter(result => result.status < 400).length;
+    const status = succeeded === results.length ? 200 : atomic ? 409 : 207;
+
+    res.status(status).json({
+      success: succeeded === results.length,
+      atomic,
+      summary: {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded
+      },
+      results
+    });
+  } catch (error) {
+    // An atomic batch never leaves partial changes behind, even on a crash
+    if (snapshot) req.bookStore.restoreSnapshot(snapshot);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message
+    });
+  }
+});
+
+// Column order of the CSV export; imports accept the columns in any order
+const CATALOG_COLUMNS = ['id', 'title', 'author', 'isbn', 'publishedYear', 'available'];
+const REQUIRED_IMPORT_COLUMNS = ['title', 'author', 'isbn'];
+const MAX_IMPORT_ROWS = 1000;
+
+// CSV cells are strings; convert the typed columns, keeping unparseable values
+// so row validation reports them. Empty cells count as missing.
+const fromCsvCell = (column, cell) => {
+  if (cell === '') return undefined;
+  if (column === 'publishedYear' && /^-?\d+$/.test(cell)) return Number(cell);
+  if (column === 'available' && (cell === 'true' || cell === 'false')) return cell === 'true';
+  return cell;
+};
+
+/**
+ * Turn a CSV catalog (header row first) into payload objects.
+ * Returns { rows } or { error } for a malformed file or header.
+ */
+const csvToRows = (text) => {
+  let lines;
+  try {
+    lines = parseCsv(text).filter(line => line.some(cell => cell !== ''));
+  } catch (error) {
+    return { error: `Malformed CSV: ${error.message}` };
+  }
+
+  const [header = [], ...records] = lines;
+  const unknown = header.filter(column => !CATALOG_COLUMNS.includes(column));
+  if (unknown.length) {
+    return { error: `Unknown CSV column(s): ${unknown.join(', ')}. Allowed: ${CATALOG_COLUMNS.join(', ')}` };
+  }
+  const missing = REQUIRED_IMPORT_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length) {
+    return { error: `Missing CSV column(s): ${missing.join(', ')}` };
+  }
+
+  const rows = records.map(record => Object.fromEntries(
+    header.map((column, i) => [column, fromCsvCell(column, record[i] === undefined ? '' : record[i])])
+  ));
+  return { rows };
+};
+
+/**
+ * Validate one import row with the POST /books rules.
+ * Returns an error message or null.
+ */
+const importRowError = (row) => {
+  if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+    return 'Row must be an object';
+  }
+  const validationError = createPayloadError(row);
+  if (validationError) return validationError.message;
+  if (row.available !== undefined && typeof row.available !== 'boolean') {
+    return 'Invalid available. Must be true or false';
+  }
+  return null;
+};
+
+/**
+ * GET /books/export?format=json|csv
+ * Download the whole catalog (default format: json)
+ */
+router.get('/export', (req, res) => {
+  try {
+    const format = req.query.format || 'json';
+    if (format !== 'json' && format !== 'csv') {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid format. Use json or csv'
+      });
+    }
+
+    const books = req.bookStore.getAllBooks();
+    res.attachment(`books.${format}`);
+
+    if (format === 'json') {
+      return res.status(200).json(books);
+    }
+    const rows = [CATALOG_COLUMNS, ...books.map(book => CATALOG_COLUMNS.map(column => book[column]))];
+    res.type('text/csv').status(200).send(toCsv(rows));
+  } catch (error) {
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /books/import
+ * Add books from a CSV file (text/csv, header row required) or a JSON array
+ * (librarian or admin). All or nothing: any invalid row rejects the import with
+ * row-level errors. Ids in the file are ignored; new ids are assigned.
+ */
+router.post('/import', authenticateToken, canWrite, express.text({ type: 'text/csv', limit: '1mb' }), (req, res) => {
+  try {
+    let rows;
+    if (req.is('text/csv')) {
+      const parsed = csvToRows(req.body);
+      if (parsed.error) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: parsed.error
+        });
+      }
+      rows = parsed.rows;
+    } else if (req.is('application/json')) {
+      if (!Array.isArray(req.body)) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'JSON import must be an array of books'
+        });
+      }
+      rows = req.body;
+    } else {
+      return res.status(415).json({
+        error: 'Unsupported Media Type',
+        message: 'Import requires Content-Type text/csv or application/json'
+      });
+    }
+
+    if (rows.length === 0 || rows.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: `Import must contain between 1 and ${MAX_IMPORT_ROWS} rows`
+      });
+    }
+
+    // Rows are numbered from 1, not counting the CSV header
+    const errors = rows
+      .map((row, index) => ({ row: index + 1, message: importRowError(row) }))
+      .filter(result => result.message);
+    if (errors.length) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: `Import rejected: ${errors.length} invalid row(s)`,
+        errors
+      });
+    }
+
+    const imported = rows.map(({ title, author, isbn, publishedYear, available }) =>
+      req.bookStore.createBook({ title, author, isbn, publishedYear, available })
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Imported ${imported.length} books`,
+      count: imported.length,
+      data: imported
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /books/search?q=
+ * Full-text search over title, author and ISBN, ranked by relevance
+ * Registered before /:id so "search" is not taken for a book id
+ */
+router.get('/search', (req, res) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Missing search query. Use /books/search?q=<terms>'
+      });
+    }
+
+    const hits = req.bookStore.searchBooks(q);
     res.status(200).json({
       success: true,
-      count: books.length,
-      data: books
+      query: q,
+      count: hits.length,
+      data: hits
     });
   } catch (error) {
     res.status(500).json({
@@ -37,7 +468,7 @@ router.get('/', (req, res) => {
  */
 router.get('/:id', (req, res) => {
   try {
-    const book = getBookById(req.params.id);
+    const book = req.bookStore.getBookById(req.params.id);
     
     if (!book) {
       return res.status(404).json({
@@ -46,6 +477,7 @@ router.get('/:id', (req, res) => {
       });
     }
     
+    res.set('ETag', req.bookStore.getBookETag(book.id));
     res.status(200).json({
       success: true,
       data: book
@@ -60,41 +492,21 @@ router.get('/:id', (req, res) => {
 
 /**
  * POST /books
- * Create a new book
+ * Create a new book (librarian or admin)
  * Required fields: title, author, isbn
  */
-router.post('/', authenticateToken, (req, res) => {
+router.post('/', authenticateToken, canWrite, (req, res) => {
   try {
     const { title, author, isbn, publishedYear, available } = req.body;
 
-    // Validate required fields
-    if (!title || !author || !isbn) {
-      return res.status(400).json({
-        error: 'Bad Request',
-        message: 'Missing required fields: title, author, and isbn are required',
-        received: { title: !!title, author: !!author, isbn: !!isbn }
-      });
-    }
-
-    // Validate ISBN format
-    if (!isValidISBN(isbn)) {
-      return res.status(400).json({
-        error: 'Bad Request',
-        message: 'Invalid ISBN format. ISBN should be 10 or 13 digits (hyphens and spaces allowed)',
-        example: '978-0135957059'
-      });
-    }
-
-    // Validate publishedYear if provided
-    if (publishedYear && (typeof publishedYear !== 'number' || publishedYear < 1000 || publishedYear > new Date().getFullYear() + 1)) {
-      return res.status(400).json({
-        error: 'Bad Request',
-        message: `Invalid publishedYear. Must be a number between 1000 and ${new Date().getFullYear() + 1}`
-      });
+    const validationError = createPayloadError(req.body);
+    if (validationError) {
+      return res.status(400).json(validationError);
     }
 
-    const newBook = createBook({ title, author, isbn, publishedYear, available });
+    const newBook = req.bookStore.createBook({ title, author, isbn, publishedYear, available });
     
+    res.set('ETag', req.bookStore.getBookETag(newBook.id));
     res.status(201).json({
       success: true,
       message: 'Book created successfully',
@@ -110,14 +522,15 @@ router.post('/', authenticateToken, (req, res) => {
 
 /**
  * PUT /books/:id
- * Update an existing book
+ * Update an existing book (librarian or admin)
+ * Honors If-Match (412 when the ETag is stale)
  */
-router.put('/:id', authenticateToken, (req, res) => {
+router.put('/:id', authenticateToken, canWrite, checkIfMatch, (req, res) => {
   try {
     const { title, author, isbn, publishedYear, available } = req.body;
 
     // Check if book exists
-    const existingBook = getBookById(req.params.id);
+    const existingBook = req.bookStore.getBookById(req.params.id);
     if (!existingBook) {
       return res.status(404).json({
         error: 'Not Found',
@@ -125,23 +538,12 @@ router.put('/:id', authenticateToken, (req, res) => {
       });
     }
 
-    // Validate ISBN if provided
-    if (isbn && !isValidISBN(isbn)) {
-      return res.status(400).json({
-        error: 'Bad Request',
-        message: 'Invalid ISBN format. ISBN should be 10 or 13 digits (hyphens and spaces allowed)'
-      });
+    const validationError = updatePayloadError(req.body);
+    if (validationError) {
+      return res.status(400).json(validationError);
     }
 
-    // Validate publishedYear if provided
-    if (publishedYear && (typeof publishedYear !== 'number' || publishedYear < 1000 || publishedYear > new Date().getFullYear() + 1)) {
-      return res.status(400).json({
-        error: 'Bad Request',
-        message: `Invalid publishedYear. Must be a number between 1000 and ${new Date().getFullYear() + 1}`
-      });
-    }
-
-    const updatedBook = updateBook(req.params.id, {
+    const updatedBook = req.bookStore.updateBook(req.params.id, {
       title,
       author,
       isbn,
@@ -149,6 +551,7 @@ router.put('/:id', authenticateToken, (req, res) => {
       available
     });
 
+    res.set('ETag', req.bookStore.getBookETag(updatedBook.id));
     res.status(200).json({
       success: true,
       message: 'Book updated successfully',
@@ -162,13 +565,102 @@ router.put('/:id', authenticateToken, (req, res) => {
   }
 });
 
+// Media types PATCH accepts; application/json is treated as a merge patch too
+const MERGE_PATCH_TYPES = ['application/merge-patch+json', 'application/json'];
+
+const PATCHABLE_FIELDS = ['title', 'author', 'isbn', 'publishedYear', 'available'];
+
+/**
+ * Validate an RFC 7396 merge patch for a book.
+ * Unlike PUT, unknown fields are rejected and null removes a field, which is
+ * only allowed for CLEARABLE_FIELDS. Returns an error message or null.
+ */
+const validateMergePatch = (patch) => {
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+    return 'Merge patch must be a JSON object';
+  }
+
+  for (const [field, value] of Object.entries(patch)) {
+    if (!PATCHABLE_FIELDS.includes(field)) {
+      return `Unknown field '${field}'. Patchable fields: ${PATCHABLE_FIELDS.join(', ')}`;
+    }
+    if (value === null) {
+      if (!CLEARABLE_FIELDS.includes(field)) {
+        return `Field '${field}' cannot be removed. Only ${CLEARABLE_FIELDS.join(', ')} can be set to null`;
+      }
+      continue;
+    }
+    if ((field === 'title' || field === 'author') && (typeof value !== 'string' || !value)) {
+      return `Invalid ${field}. Must be a non-empty string`;
+    }
+    if (field === 'isbn' && !isValidISBN(value)) {
+      return INVALID_ISBN_MESSAGE;
+    }
+    if (field === 'publishedYear' && !isValidPublishedYear(value)) {
+      return invalidPublishedYearMessage();
+    }
+    if (field === 'available' && typeof value !== 'boolean') {
+      return 'Invalid available. Must be a boolean';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * PATCH /books/:id
+ * Partially update a book with JSON Merge Patch (RFC 7396) semantics (librarian or admin)
+ * Honors If-Match (412 when the ETag is stale)
+ */
+router.patch('/:id', authenticateToken, canWrite, checkIfMatch, (req, res) => {
+  try {
+    if (!req.is(MERGE_PATCH_TYPES)) {
+      return res.status(415).json({
+        error: 'Unsupported Media Type',
+        message: `PATCH requires Content-Type ${MERGE_PATCH_TYPES.join(' or ')}`
+      });
+    }
+
+    // Check if book exists
+    if (!req.bookStore.getBookById(req.params.id)) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: `Book with ID ${req.params.id} not found`
+      });
+    }
+
+    const error = validateMergePatch(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error
+      });
+    }
+
+    const patchedBook = req.bookStore.patchBook(req.params.id, req.body);
+
+    res.set('ETag', req.bookStore.getBookETag(patchedBook.id));
+    res.status(200).json({
+      success: true,
+      message: 'Book patched successfully',
+      data: patchedBook
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message
+    });
+  }
+});
+
 /**
  * DELETE /books/:id
- * Delete a book
+ * Delete a book (admin only)
+ * Honors If-Match (412 when the ETag is stale)
  */
-router.delete('/:id', authenticateToken, (req, res) => {
+router.delete('/:id', authenticateToken, canDelete, checkIfMatch, (req, res) => {
   try {
-    const deleted = deleteBook(req.params.id);
+    const deleted = req.bookStore.deleteBook(req.params.id);
     
     if (!deleted) {
       return res.status(404).json({
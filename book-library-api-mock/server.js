@@ -1,19 +1,30 @@
 require('dotenv').config();
+const path = require('path');
 const express = require('express');
 const cors = require('cors');
 const morgan = require('morgan');
 const authRoutes = require('./routes/auth');
 const bookRoutes = require('./routes/books');
+const adminRoutes = require('./routes/admin');
 const { authenticateToken } = require('./middleware/auth');
+const { attachBookStore } = require('./middleware/store');
+const { createFaultInjector } = require('./middleware/faults');
+const { createStorage } = require('./storage');
+const { createBookStore } = require('./data/books');
 
 const app = express();
 const PORT = process.env.PORT || 3000;
+const storage = createStorage(process.env);
+const bookStore = createBookStore(storage);
+const faultInjector = createFaultInjector();
 
 // Middleware
-app.use(cors()); // Enable CORS for all origins
-app.use(express.json()); // Parse JSON request bodies
+app.use(cors({ exposedHeaders: ['ETag'] })); // Enable CORS for all origins; let browsers read ETag
+app.use(express.json({ type: ['application/json', 'application/merge-patch+json'] })); // Parse JSON and merge-patch bodies
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
 app.use(morgan('dev')); // HTTP request logger
+app.use(attachBookStore(bookStore)); // Book data access for route handlers
+app.use(faultInjector.middleware); // Latency and errors configured through /__admin/faults
 
 // Health check endpoint (public)
 app.get('/health', (req, res) => {
@@ -25,6 +36,11 @@ app.get('/health', (req, res) => {
   });
 });
 
+// OpenAPI 3.1 document, generated from the test suite's Zod schemas (npm run openapi)
+app.get('/openapi.json', (req, res) => {
+  res.status(200).sendFile(path.join(__dirname, 'openapi.json'));
+});
+
 // Root endpoint
 app.get('/', (req, res) => {
   res.status(200).json({
@@ -35,15 +51,28 @@ app.get('/', (req, res) => {
         login: 'POST /auth/login'
       },
       books: {
-        getAll: 'GET /books',
+        getAll: 'GET /books (limit, offset, author, available, publishedYearMin, publishedYearMax, sort)',
+        search: 'GET /books/search?q=',
+        export: 'GET /books/export?format=json|csv',
         getById: 'GET /books/:id',
         create: 'POST /books (requires auth)',
+        bulk: 'POST /books/bulk?atomic=true|false (requires auth)',
+        import: 'POST /books/import (CSV or JSON, requires auth)',
         update: 'PUT /books/:id (requires auth)',
+        patch: 'PATCH /books/:id (requires auth, JSON Merge Patch)',
         delete: 'DELETE /books/:id (requires auth)'
       },
-      health: 'GET /health'
+      admin: {
+        reset: 'POST /__admin/reset (admin only)',
+        seed: 'POST /__admin/seed (admin only)',
+        snapshot: 'POST /__admin/snapshot (admin only)',
+        restore: 'POST /__admin/restore/:name (admin only)',
+        faults: 'GET|PUT|DELETE /__admin/faults (admin only)'
+      },
+      health: 'GET /health',
+      openapi: 'GET /openapi.json'
     },
-    documentation: 'See README.md for detailed API documentation'
+    documentation: 'GET /openapi.json for the OpenAPI 3.1 document; see README.md for details'
   });
 });
 
@@ -54,6 +83,9 @@ app.use('/auth', authRoutes);
 // Mount the router first for GET endpoints (public)
 app.use('/books', bookRoutes);
 
+// Test-support endpoints (admin only)
+app.use('/__admin', adminRoutes);
+
 // Then protect POST, PUT, DELETE endpoints
 // Note: GET endpoints are handled in the router without auth middleware
 // POST, PUT, DELETE routes in books.js will need auth middleware applied there
@@ -66,12 +98,25 @@ app.use((req, res) => {
     availableEndpoints: [
       'GET /',
       'GET /health',
+      'GET /openapi.json',
       'POST /auth/login',
       'GET /books',
+      'GET /books/search',
+      'GET /books/export',
       'GET /books/:id',
       'POST /books',
+      'POST /books/bulk',
+      'POST /books/import',
       'PUT /books/:id',
-      'DELETE /books/:id'
+      'PATCH /books/:id',
+      'DELETE /books/:id',
+      'POST /__admin/reset',
+      'POST /__admin/seed',
+      'POST /__admin/snapshot',
+      'POST /__admin/restore/:name',
+      'GET /__admin/faults',
+      'PUT /__admin/faults',
+      'DELETE /__admin/faults'
     ]
   });
 });
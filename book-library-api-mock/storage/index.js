@@ -0,0 +1,27 @@
+const { createMemoryStorage } = require('./memory');
+const { createJsonFileStorage } = require('./json-file');
+
+/**
+ * Storage interface used by the book store:
+ *   load()       -> the last saved state, or null when nothing was saved yet
+ *   save(state)  -> persist the whole state ({ books, nextId, versions })
+ *
+ * Selected with STORAGE=memory (default) or STORAGE=file; the file path comes
+ * from STORAGE_FILE (default .data/books.json).
+ */
+const createStorage = (env = process.env) => {
+  const kind = env.STORAGE || 'memory';
+
+  switch (kind) {
+    case 'memory':
+      return createMemoryStorage();
+    case 'file':
+      return createJsonFileStorage(env.STORAGE_FILE || '.data/books.json');
+    default:
+      throw new Error(`Unknown STORAGE '${kind}'. Use memory or file`);
+  }
+};
+
+module.exports = {
+  createStorage
+};
@@ -0,0 +1,34 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Create a storage that persists state to a JSON file.
+ * Writes go to a temporary file that is then renamed over the target, so a
+ * crash mid-write never leaves a truncated file behind.
+ */
+const createJsonFileStorage = (filePath) => {
+  const target = path.resolve(filePath);
+
+  return {
+    kind: 'file',
+    path: target,
+    load: () => {
+      try {
+        return JSON.parse(fs.readFileSync(target, 'utf8'));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw new Error(`Cannot load storage file ${target}: ${error.message}`);
+      }
+    },
+    save: (state) => {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      const temp = `${target}.${process.pid}.tmp`;
+      fs.writeFileSync(temp, JSON.stringify(state, null, 2));
+      fs.renameSync(temp, target);
+    }
+  };
+};
+
+module.exports = {
+  createJsonFileStorage
+};
@@ -0,0 +1,21 @@
+// In-memory storage: state lives only as long as the process
+
+/**
+ * Create a storage that keeps the last saved state in memory.
+ * Nothing survives a restart; this is the default.
+ */
+const createMemoryStorage = () => {
+  let saved = null;
+
+  return {
+    kind: 'memory',
+    load: () => (saved ? structuredClone(saved) : null),
+    save: (state) => {
+      saved = structuredClone(state);
+    }
+  };
+};
+
+module.exports = {
+  createMemoryStorage
+};
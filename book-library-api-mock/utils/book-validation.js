@@ -0,0 +1,87 @@
+// Book payload validation shared by the book and admin routes
+const { isValidISBN, isValidPublishedYear } = require('../data/books');
+
+const INVALID_ISBN_MESSAGE = 'Invalid ISBN format. ISBN should be 10 or 13 digits (hyphens and spaces allowed)';
+
+const invalidPublishedYearMessage = () =>
+  `Invalid publishedYear. Must be a number between 1000 and ${new Date().getFullYear() + 1}`;
+
+/**
+ * Check the provided title and author are non-empty strings and available is
+ * a boolean. Returns the 400 response body, or null.
+ */
+const textAndFlagError = ({ title, author, available }) => {
+  for (const [field, value] of Object.entries({ title, author })) {
+    if (value !== undefined && (typeof value !== 'string' || !value)) {
+      return { error: 'Bad Request', message: `Invalid ${field}. Must be a non-empty string` };
+    }
+  }
+  if (available !== undefined && typeof available !== 'boolean') {
+    return { error: 'Bad Request', message: 'Invalid available. Must be a boolean' };
+  }
+  return null;
+};
+
+/**
+ * Validate a POST /books payload.
+ * Returns the 400 response body, or null when the payload is valid.
+ */
+const createPayloadError = ({ title, author, isbn, publishedYear, available } = {}) => {
+  // Validate required fields
+  if (!title || !author || !isbn) {
+    return {
+      error: 'Bad Request',
+      message: 'Missing required fields: title, author, and isbn are required',
+      received: { title: !!title, author: !!author, isbn: !!isbn }
+    };
+  }
+
+  // Validate field types
+  const typeError = textAndFlagError({ title, author, available });
+  if (typeError) return typeError;
+
+  // Validate ISBN format
+  if (!isValidISBN(isbn)) {
+    return {
+      error: 'Bad Request',
+      message: INVALID_ISBN_MESSAGE,
+      example: '978-0135957059'
+    };
+  }
+
+  // Validate publishedYear if provided
+  if (publishedYear !== undefined && !isValidPublishedYear(publishedYear)) {
+    return { error: 'Bad Request', message: invalidPublishedYearMessage() };
+  }
+
+  return null;
+};
+
+/**
+ * Validate a PUT /books/:id payload (every field optional).
+ * Returns the 400 response body, or null when the payload is valid.
+ */
+const updatePayloadError = ({ title, author, isbn, publishedYear, available } = {}) => {
+  // Validate title, author and available if provided
+  const typeError = textAndFlagError({ title, author, available });
+  if (typeError) return typeError;
+
+  // Validate ISBN if provided
+  if (isbn !== undefined && !isValidISBN(isbn)) {
+    return { error: 'Bad Request', message: INVALID_ISBN_MESSAGE };
+  }
+
+  // Validate publishedYear if provided
+  if (publishedYear !== undefined && !isValidPublishedYear(publishedYear)) {
+    return { error: 'Bad Request', message: invalidPublishedYearMessage() };
+  }
+
+  return null;
+};
+
+module.exports = {
+  INVALID_ISBN_MESSAGE,
+  invalidPublishedYearMessage,
+  createPayloadError,
+  updatePayloadError
+};
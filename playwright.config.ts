@@ -1,8 +1,13 @@
-import './src/utils/env'; 
 import { defineConfig, devices } from '@playwright/test';
+import { config } from './src/utils/config';
 
 export default defineConfig({
   testDir: './tests',
+  /* Per-environment values come from config/<TEST_ENV>.env, see src/utils/config.ts */
+  /* Starts the bundled mock on a free port unless MOCK_SERVER=off */
+  globalSetup: './src/setup/mock-server.setup.ts',
+  timeout: config.timeouts.testMs,
+  expect: { timeout: config.timeouts.expectMs },
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -12,12 +17,14 @@ export default defineConfig({
   /* Opt out of parallel tests on CI. */
   workers: process.env.CI ? 1 : '30%',
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
-  reporter: 'html',
+  reporter: [
+    ['html'],
+    /* Endpoint coverage matrix in api-coverage/ */
+    ['./src/reporters/api-coverage.reporter.ts'],
+  ],
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
+  /* No baseURL: global setup picks the mock's port after this file is loaded, so clients read config.baseURL per worker */
   use: {
-    /* Base URL to use in actions like `await page.goto('')`. */
-    baseURL: process.env.BASE_URL,
-
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
   },
@@ -27,6 +34,18 @@ export default defineConfig({
     {
       name: 'chromium',
       use: { ...devices['Desktop Chrome'] },
+      grepInvert: /@store/,
+    },
+
+    /* Tests that reset or seed the whole store (freshLibrary, /__admin) run after everything else */
+    /* One at a time: store resets and fault rules are global to the server */
+    {
+      name: 'store',
+      use: { ...devices['Desktop Chrome'] },
+      grep: /@store/,
+      dependencies: ['chromium'],
+      fullyParallel: false,
+      workers: 1,
     },
 
     // {
@@ -59,11 +78,4 @@ export default defineConfig({
     //   use: { ...devices['Desktop Chrome'], channel: 'chrome' },
     // },
   ],
-
-  /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://localhost:3000',
-  //   reuseExistingServer: !process.env.CI,
-  // },
 });
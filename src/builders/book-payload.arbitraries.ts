@@ -0,0 +1,107 @@
+import fc from 'fast-check';
+import type { BookMergePatch, CreateBookPayload } from '../types/book.dto';
+import { MAX_PUBLISHED_YEAR, type Book } from '../schemas/book.schema';
+import { isbn10CheckDigit, isbn13CheckDigit } from '../utils/isbn';
+
+/**
+ * fast-check arbitraries for book payloads.
+ * Besides valid values they deliberately mix in the edge cases where the
+ * client schema and the server rules are most likely to drift apart.
+ */
+
+const digits = (length: number) =>
+  fc.array(fc.integer({ min: 0, max: 9 }), { minLength: length, maxLength: length }).map(d => d.join(''));
+
+const validIsbn10 = digits(9)
+  .map(body => body + isbn10CheckDigit(body))
+  .filter(isbn => !isbn.endsWith('X'));
+
+const validIsbn13 = digits(12).map(body => body + isbn13CheckDigit(body));
+
+/** Inserts random hyphens/spaces between the characters of an ISBN. */
+const withSeparators = (isbn: fc.Arbitrary<string>) =>
+  fc
+    .tuple(isbn, fc.array(fc.constantFrom('', '', '-', ' ', '--'), { minLength: 13, maxLength: 13 }))
+    .map(([value, seps]) => [...value].map((c, i) => c + (i < value.length - 1 ? seps[i] : '')).join(''));
+
+export const isbnArb: fc.Arbitrary<string> = fc.oneof(
+  validIsbn10,
+  validIsbn13,
+  withSeparators(fc.oneof(validIsbn10, validIsbn13)),
+  fc.integer({ min: 1, max: 16 }).chain(digits),
+  fc.stringMatching(/^[0-9X]{10}$/),
+  fc.constantFrom('', ' ', '-', '978-013595705X', 'ISBN 9780135957059'),
+  fc.string({ maxLength: 20 })
+);
+
+export const publishedYearArb: fc.Arbitrary<number> = fc.oneof(
+  fc.integer({ min: 1000, max: MAX_PUBLISHED_YEAR }),
+  fc.constantFrom(0, 999, 1000, MAX_PUBLISHED_YEAR, MAX_PUBLISHED_YEAR + 1, -1),
+  fc.integer({ min: -10_000, max: 10_000 }),
+  fc.double({ min: 999, max: MAX_PUBLISHED_YEAR + 2, noNaN: true, noDefaultInfinity: true })
+);
+
+export const textArb: fc.Arbitrary<string> = fc.oneof(
+  fc.string({ minLength: 1, maxLength: 40 }),
+  fc.constantFrom('', ' ', 'Ünïcödé 📚', 'x'.repeat(500))
+);
+
+/** JSON values of the wrong type for any book field, e.g. a numeric title or a string flag. */
+const wrongTypeArb: fc.Arbitrary<unknown> = fc.constantFrom(123, 0, true, false, 'yes', 'true', ['a'], {});
+
+/** Mostly `valid`, sometimes a value of another JSON type. */
+const orWrongType = <T>(valid: fc.Arbitrary<T>) =>
+  fc.oneof({ arbitrary: valid, weight: 4 }, { arbitrary: wrongTypeArb, weight: 1 });
+
+/**
+ * Any create payload: fields may be missing, empty, out of range or of the
+ * wrong type.
+ */
+export const createBookPayloadArb: fc.Arbitrary<Partial<CreateBookPayload>> = fc.record(
+  {
+    title: orWrongType(textArb),
+    author: orWrongType(textArb),
+    isbn: orWrongType(isbnArb),
+    publishedYear: orWrongType(publishedYearArb),
+    available: orWrongType(fc.boolean()),
+  },
+  { requiredKeys: [] }
+  // Cast: wrongly typed fields are outside the type on purpose
+) as fc.Arbitrary<Partial<CreateBookPayload>>;
+
+/**
+ * Any update payload; identical field rules, every field optional.
+ */
+export const updateBookPayloadArb: fc.Arbitrary<Partial<CreateBookPayload>> = createBookPayloadArb;
+
+/**
+ * Any merge patch: like an update payload, but every field may also be null,
+ * which is only valid for the fields PATCH can remove.
+ */
+export const bookMergePatchArb: fc.Arbitrary<BookMergePatch> = fc.record(
+  {
+    title: fc.oneof(orWrongType(textArb), fc.constant(null)),
+    author: fc.oneof(orWrongType(textArb), fc.constant(null)),
+    isbn: fc.oneof(orWrongType(isbnArb), fc.constant(null)),
+    publishedYear: fc.oneof(orWrongType(publishedYearArb), fc.constant(null)),
+    available: fc.oneof(orWrongType(fc.boolean()), fc.constant(null)),
+  },
+  { requiredKeys: [] }
+  // Cast: wrongly typed fields and null title/author/available are outside the type on purpose
+) as fc.Arbitrary<BookMergePatch>;
+
+/**
+ * Any valid stored book, as returned by the API. Text fields may contain
+ * commas, quotes and line breaks, which is what serializers get wrong.
+ */
+export const bookArb: fc.Arbitrary<Book> = fc.record(
+  {
+    id: fc.integer({ min: 1, max: 1_000_000 }).map(String),
+    title: fc.oneof(fc.string({ minLength: 1, maxLength: 40 }), fc.constantFrom('A, "quoted"\r\ntitle', 'Ünïcödé 📚')),
+    author: fc.string({ minLength: 1, maxLength: 40 }),
+    isbn: fc.oneof(validIsbn10, validIsbn13, withSeparators(validIsbn13)),
+    publishedYear: fc.integer({ min: 1000, max: MAX_PUBLISHED_YEAR }),
+    available: fc.boolean(),
+  },
+  { requiredKeys: ['id', 'title', 'author', 'available'] }
+);
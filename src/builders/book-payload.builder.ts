@@ -0,0 +1,99 @@
+import type { CreateBookPayload } from '../types/book.dto';
+import { generateIsbn10, generateIsbn13 } from '../utils/isbn';
+import { defaultRandom, type SeededRandom } from '../utils/random';
+
+const TITLE_WORDS = ['Pragmatic', 'Clean', 'Effective', 'Modern', 'Practical', 'Advanced', 'Refactored', 'Continuous'];
+const TITLE_TOPICS = ['Testing', 'Architecture', 'Programming', 'Delivery', 'Design', 'Automation', 'Craftsmanship'];
+const FIRST_NAMES = ['Ada', 'Grace', 'Alan', 'Barbara', 'Edsger', 'Margaret', 'Donald', 'Frances'];
+const LAST_NAMES = ['Lovelace', 'Hopper', 'Turing', 'Liskov', 'Dijkstra', 'Hamilton', 'Knuth', 'Allen'];
+
+/** ISBNs the API rejects: wrong length, letters, or empty after separators. */
+const INVALID_ISBNS = ['978', '978-013595705', '97801359570591', 'ISBN-0135957059', '978-01359X7059', '--- ---'];
+
+/**
+ * Fluent builder for `CreateBookPayload`.
+ * Produces a valid payload by default; every random value comes from a
+ * `SeededRandom`, so a payload can be rebuilt exactly from its seed.
+ * `withoutField` removes a field from both the payload and its type.
+ *
+ * @example
+ * const payload = aBook().withTitle('Clean Code').isbn10().build();
+ * const missingAuthor = aBook().withoutField('author').build();
+ */
+export class BookPayloadBuilder<T extends Partial<CreateBookPayload> = CreateBookPayload> {
+  private payload: Partial<CreateBookPayload>;
+
+  constructor(private readonly random: SeededRandom = defaultRandom()) {
+    const year = new Date().getFullYear();
+    this.payload = {
+      title: `${random.pick(TITLE_WORDS)} ${random.pick(TITLE_TOPICS)} ${random.digits(6)}`,
+      author: `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`,
+      isbn: generateIsbn13(random),
+      publishedYear: random.int(1950, year),
+      available: random.bool(),
+    };
+  }
+
+  /** Seed of the generator backing this builder, for reproducing a payload. */
+  get seed(): number {
+    return this.random.seed;
+  }
+
+  withTitle(title: string): this {
+    this.payload.title = title;
+    return this;
+  }
+
+  withAuthor(author: string): this {
+    this.payload.author = author;
+    return this;
+  }
+
+  withIsbn(isbn: string): this {
+    this.payload.isbn = isbn;
+    return this;
+  }
+
+  withPublishedYear(publishedYear: number): this {
+    this.payload.publishedYear = publishedYear;
+    return this;
+  }
+
+  withAvailable(available: boolean): this {
+    this.payload.available = available;
+    return this;
+  }
+
+  /** Replace the ISBN with a random checksum-correct ISBN-10. */
+  isbn10(): this {
+    return this.withIsbn(generateIsbn10(this.random));
+  }
+
+  /** Replace the ISBN with a random checksum-correct ISBN-13. */
+  isbn13(): this {
+    return this.withIsbn(generateIsbn13(this.random));
+  }
+
+  /** Replace the ISBN with one the API rejects as malformed. */
+  invalidIsbn(): this {
+    return this.withIsbn(this.random.pick(INVALID_ISBNS));
+  }
+
+  withoutField<K extends keyof T & keyof CreateBookPayload>(field: K): BookPayloadBuilder<Omit<T, K>> {
+    delete this.payload[field];
+    return this as unknown as BookPayloadBuilder<Omit<T, K>>;
+  }
+
+  /** Returns a copy, so a builder can be built several times. */
+  build(): T {
+    return { ...this.payload } as T;
+  }
+}
+
+/**
+ * Entry point for building book payloads.
+ * Uses the per-test generator unless one is passed explicitly.
+ */
+export function aBook(random?: SeededRandom): BookPayloadBuilder {
+  return new BookPayloadBuilder(random);
+}
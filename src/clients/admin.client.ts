@@ -0,0 +1,124 @@
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import type { CreateBookPayload } from "../types/book.dto";
+import type { FaultRule } from "../types/fault.dto";
+import { addRequestOptions } from './http.helpers';
+import { sendWithRetry } from './retry';
+
+/**
+ * HTTP client for the mock's test-support endpoints under /__admin.
+ * Every endpoint requires an admin token.
+ *
+ * @const {Object} AdminClient
+ */
+export const AdminClient = {
+  /**
+   * Restores the seed catalog (ids 1-7).
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {string} [token] - Admin JWT token
+   * @returns {Promise<APIResponse>} API response with the books now in the store
+   */
+  resetStore: async (request: APIRequestContext, token?: string): Promise<APIResponse> => {
+    const opts = addRequestOptions(undefined, token);
+    return sendWithRetry(request, "post", "/__admin/reset", opts);
+  },
+
+  /**
+   * Replaces the catalog with the given books; ids restart at 1.
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {CreateBookPayload[]} books - Books to seed, in id order
+   * @param {string} [token] - Admin JWT token
+   * @returns {Promise<APIResponse>} API response with the books now in the store
+   */
+  seedStore: async (
+    request: APIRequestContext,
+    books: CreateBookPayload[],
+    token?: string
+  ): Promise<APIResponse> => {
+    const opts = addRequestOptions({ books }, token);
+    return sendWithRetry(request, "post", "/__admin/seed", opts);
+  },
+
+  /**
+   * Saves the current store state under `name`.
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {string} name - Snapshot name (letters, digits, `_`, `-`, `.`)
+   * @param {string} [token] - Admin JWT token
+   * @returns {Promise<APIResponse>} API response confirming the snapshot
+   */
+  saveSnapshot: async (
+    request: APIRequestContext,
+    name: string,
+    token?: string
+  ): Promise<APIResponse> => {
+    const opts = addRequestOptions({ name }, token);
+    return sendWithRetry(request, "post", "/__admin/snapshot", opts);
+  },
+
+  /**
+   * Puts the store back into the state saved under `name`.
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {string} name - Name the snapshot was saved under
+   * @param {string} [token] - Admin JWT token
+   * @returns {Promise<APIResponse>} API response confirming the restore
+   */
+  restoreSnapshot: async (
+    request: APIRequestContext,
+    name: string,
+    token?: string
+  ): Promise<APIResponse> => {
+    const opts = addRequestOptions(undefined, token);
+    return sendWithRetry(request, "post", `/__admin/restore/${encodeURIComponent(name)}`, opts);
+  },
+
+  /**
+   * Lists the active fault rules.
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {string} [token] - Admin JWT token
+   * @returns {Promise<APIResponse>} API response with the rules
+   */
+  getFaults: async (request: APIRequestContext, token?: string): Promise<APIResponse> => {
+    const opts = addRequestOptions(undefined, token);
+    return sendWithRetry(request, "get", "/__admin/faults", opts);
+  },
+
+  /**
+   * Replaces the fault rules.
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {FaultRule[]} rules - Rules to apply, first match wins
+   * @param {string} [token] - Admin JWT token
+   * @returns {Promise<APIResponse>} API response with the rules now active
+   */
+  setFaults: async (
+    request: APIRequestContext,
+    rules: FaultRule[],
+    token?: string
+  ): Promise<APIResponse> => {
+    const opts = addRequestOptions({ rules }, token);
+    return sendWithRetry(request, "put", "/__admin/faults", opts);
+  },
+
+  /**
+   * Removes every fault rule.
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {string} [token] - Admin JWT token
+   * @returns {Promise<APIResponse>} API response with the (empty) rules
+   */
+  clearFaults: async (request: APIRequestContext, token?: string): Promise<APIResponse> => {
+    const opts = addRequestOptions(undefined, token);
+    return sendWithRetry(request, "delete", "/__admin/faults", opts);
+  },
+};
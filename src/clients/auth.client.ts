@@ -1,5 +1,6 @@
 import type { APIRequestContext, APIResponse } from "@playwright/test";
 import { addRequestOptions } from './http.helpers';
+import { sendWithRetry } from './retry';
 
 /**
  * Represents the login request payload.
@@ -33,6 +34,7 @@ export const AuthClient = {
     payload: LoginPayload
   ): Promise<APIResponse> => {
     const opts = addRequestOptions(payload);
-    return request.post("/auth/login", opts);
+    // A POST without an idempotency key: sent once, never retried
+    return sendWithRetry(request, "post", "/auth/login", opts);
   },
 };
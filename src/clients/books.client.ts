@@ -1,6 +1,37 @@
 import type { APIRequestContext, APIResponse } from "@playwright/test";
-import type { CreateBookPayload } from "../types/book.dto";
-import { addRequestOptions } from './http.helpers';
+import type {
+  BookListQuery,
+  BookMergePatch,
+  BulkOperation,
+  CatalogFormat,
+  CreateBookPayload,
+} from "../types/book.dto";
+import {
+  addRequestOptions,
+  idempotencyHeaders,
+  preconditionHeaders,
+  type IdempotencyOptions,
+  type PreconditionOptions,
+} from './http.helpers';
+import { sendWithRetry, type HttpMethod, type RetryPolicy } from './retry';
+
+/**
+ * Retry overrides per endpoint (on top of the active policy).
+ * Writes only retry statuses that guarantee nothing was applied: after a 502,
+ * a 504 or a dropped connection a create may have happened, and a retried
+ * delete would report 404.
+ */
+const ENDPOINT_RETRY = {
+  write: { retryOn: [429, 503], retryNetworkErrors: false },
+  raw: { maxAttempts: 1 },
+} satisfies Record<string, Partial<RetryPolicy>>;
+
+/**
+ * Retry overrides of a PUT or PATCH: unconditional ones are safe to repeat,
+ * but a conditional one that was applied would fail its replay with 412.
+ */
+const updateRetry = (options?: PreconditionOptions): Partial<RetryPolicy> =>
+  options?.ifMatch ? ENDPOINT_RETRY.write : {};
 
 /**
  * HTTP client for book-related API endpoints.
@@ -17,16 +48,116 @@ import { addRequestOptions } from './http.helpers';
  * @param {APIRequestContext} request - Playwright API request context
  * @param {CreateBookPayload | Partial<CreateBookPayload>} payload - Book data to create
  * @param {string} [token] - Optional JWT token for authorization
+ * @param {IdempotencyOptions} [options] - `idempotencyKey` makes the POST retryable
  * @returns {Promise<APIResponse>} API response with created book details
  */
 export const BooksClient = {
   createBook: async (
     request: APIRequestContext,
     payload: CreateBookPayload | Partial<CreateBookPayload>,
+    token?: string,
+    options?: IdempotencyOptions
+  ): Promise<APIResponse> => {
+    const opts = addRequestOptions(payload, token, idempotencyHeaders(options));
+    return sendWithRetry(request, "post", "/books", opts, ENDPOINT_RETRY.write);
+  },
+
+  /**
+   * Applies a batch of create/update/delete operations in one request.
+   * Requires authentication token; delete items require the admin role.
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {BulkOperation[]} operations - Operations, applied in order
+   * @param {string} [token] - Optional JWT token for authorization
+   * @param {Object} [options] - `atomic: true` applies all operations or none; `idempotencyKey` makes the POST retryable
+   * @returns {Promise<APIResponse>} API response with per-item results
+   */
+  bulkBooks: async (
+    request: APIRequestContext,
+    operations: BulkOperation[],
+    token?: string,
+    options: { atomic?: boolean } & IdempotencyOptions = {}
+  ): Promise<APIResponse> => {
+    const opts = addRequestOptions({ operations }, token, idempotencyHeaders(options));
+    return sendWithRetry(
+      request,
+      "post",
+      "/books/bulk",
+      { ...opts, params: { atomic: options.atomic ?? false } },
+      ENDPOINT_RETRY.write
+    );
+  },
+
+  /**
+   * Downloads the whole catalog as JSON or CSV.
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {CatalogFormat} [format="json"] - File format
+   * @returns {Promise<APIResponse>} API response with the catalog file
+   */
+  exportBooks: async (
+    request: APIRequestContext,
+    format: CatalogFormat = "json"
+  ): Promise<APIResponse> => {
+    return sendWithRetry(request, "get", "/books/export", { ...addRequestOptions(), params: { format } });
+  },
+
+  /**
+   * Imports books from CSV text or a JSON array. Requires authentication token.
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {string | Partial<CreateBookPayload>[]} catalog - CSV text (header row first) or book payloads
+   * @param {string} [token] - Optional JWT token for authorization
+   * @returns {Promise<APIResponse>} API response with the imported books
+   */
+  importBooks: async (
+    request: APIRequestContext,
+    catalog: string | Partial<CreateBookPayload>[],
     token?: string
   ): Promise<APIResponse> => {
-    const opts = addRequestOptions(payload, token);
-    return request.post("/books", opts);
+    const opts =
+      typeof catalog === "string"
+        ? addRequestOptions(catalog, token, { "Content-Type": "text/csv" })
+        : addRequestOptions(catalog, token);
+    return sendWithRetry(request, "post", "/books/import", opts, ENDPOINT_RETRY.write);
+  },
+
+  /**
+   * Lists books, optionally filtered, sorted and paginated.
+   * Undefined query values are not sent.
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {BookListQuery} [query] - Optional filter, sort and pagination parameters
+   * @returns {Promise<APIResponse>} API response with the matching books
+   */
+  listBooks: async (
+    request: APIRequestContext,
+    query: BookListQuery = {}
+  ): Promise<APIResponse> => {
+    const params: Record<string, string | number | boolean> = {};
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params[key] = value;
+    }
+    return sendWithRetry(request, "get", "/books", { ...addRequestOptions(), params });
+  },
+
+  /**
+   * Searches books by title, author and ISBN.
+   *
+   * @async
+   * @param {APIRequestContext} request - Playwright API request context
+   * @param {string} q - Search terms, separated by whitespace
+   * @returns {Promise<APIResponse>} API response with ranked matches
+   */
+  searchBooks: async (
+    request: APIRequestContext,
+    q: string
+  ): Promise<APIResponse> => {
+    return sendWithRetry(request, "get", "/books/search", { ...addRequestOptions(), params: { q } });
   },
 
   /**
@@ -39,7 +170,7 @@ export const BooksClient = {
    * @returns {Promise<APIResponse>} API response with book details
    */
   getBookById: async (request: APIRequestContext, id: string | number) => {
-    return request.get(`/books/${id}`);
+    return sendWithRetry(request, "get", `/books/${id}`, addRequestOptions());
   },
 
   /**
@@ -51,16 +182,18 @@ export const BooksClient = {
    * @param {string | number} id - The unique identifier of the book to update
    * @param {Partial<CreateBookPayload>} payload - Partial book data to update
    * @param {string} [token] - Optional JWT token for authorization
+   * @param {PreconditionOptions} [options] - Optional `ifMatch` ETag
    * @returns {Promise<APIResponse>} API response with updated book details
    */
   updateBook: async (
     request: APIRequestContext,
     id: string | number,
     payload: Partial<CreateBookPayload>,
-    token?: string
+    token?: string,
+    options?: PreconditionOptions
   ): Promise<APIResponse> => {
-    const opts = addRequestOptions(payload, token);
-    return request.put(`/books/${id}`, opts);
+    const opts = addRequestOptions(payload, token, preconditionHeaders(options));
+    return sendWithRetry(request, "put", `/books/${id}`, opts, updateRetry(options));
   },
 
   /**
@@ -71,42 +204,49 @@ export const BooksClient = {
    * @param {APIRequestContext} request - Playwright API request context
    * @param {string | number} id - The unique identifier of the book to delete
    * @param {string} [token] - Optional JWT token for authorization
+   * @param {PreconditionOptions} [options] - Optional `ifMatch` ETag
    * @returns {Promise<APIResponse>} API response confirming deletion
    */
   deleteBook: async (
     request: APIRequestContext,
     id: string | number,
-    token?: string
+    token?: string,
+    options?: PreconditionOptions
   ): Promise<APIResponse> => {
-    const opts = addRequestOptions(undefined, token);
-    return request.delete(`/books/${id}`, opts);
+    const opts = addRequestOptions(undefined, token, preconditionHeaders(options));
+    return sendWithRetry(request, "delete", `/books/${id}`, opts, ENDPOINT_RETRY.write);
   },
 
   /**
-   * Updates an existing book in the library.
-   * Sends a PATCH request to update book details. Requires authentication token for authorized endpoints.
+   * Partially updates an existing book in the library.
+   * Sends a PATCH request with a JSON Merge Patch body (RFC 7396). Requires authentication token for authorized endpoints.
    *
    * @async
    * @param {APIRequestContext} request - Playwright API request context
-   * @param {string | number} id - The unique identifier of the book to update
-   * @param {Partial<CreateBookPayload>} payload - Partial book data to update
+   * @param {string | number} id - The unique identifier of the book to patch
+   * @param {BookMergePatch} [patch] - Fields to change; `null` removes an optional field
    * @param {string} [token] - Optional JWT token for authorization
-   * @returns {Promise<APIResponse>} API response with updated book details
+   * @param {PreconditionOptions} [options] - Optional `ifMatch` ETag
+   * @returns {Promise<APIResponse>} API response with the patched book details
    */
   patchBook: async (
     request: APIRequestContext,
     id: string | number,
-    payload?: Partial<CreateBookPayload>,
-    token?: string
+    patch?: BookMergePatch,
+    token?: string,
+    options?: PreconditionOptions
   ): Promise<APIResponse> => {
-    const opts = addRequestOptions(payload, token);
-    return request.patch(`/books/${id}`, opts);
+    const opts = addRequestOptions(patch, token, {
+      "Content-Type": "application/merge-patch+json",
+      ...preconditionHeaders(options),
+    });
+    return sendWithRetry(request, "patch", `/books/${id}`, opts, updateRetry(options));
   },
 
   /**
    * Generic raw request helper for arbitrary HTTP methods and paths.
    * Useful for exercising endpoints that don't have a dedicated client method
-   * or for tests that need to craft custom requests.
+   * or for tests that need to craft custom requests. Never retried.
    *
    * @async
    * @param {APIRequestContext} request - Playwright API request context
@@ -120,26 +260,11 @@ export const BooksClient = {
    */
   requestRaw: async (
     request: APIRequestContext,
-    method: "get" | "post" | "put" | "patch" | "delete" | "head",
+    method: HttpMethod,
     path: string,
     options?: { data?: any; token?: string; headers?: Record<string, string> }
   ): Promise<APIResponse> => {
     const opts = addRequestOptions(options?.data, options?.token, options?.headers);
-    switch (method) {
-      case "get":
-        return request.get(path, opts);
-      case "post":
-        return request.post(path, opts);
-      case "put":
-        return request.put(path, opts);
-      case "patch":
-        return request.patch(path, opts);
-      case "delete":
-        return request.delete(path, opts);
-      case "head":
-        return request.head(path, opts);
-      default:
-        throw new Error(`Unsupported method: ${method}`);
-    }
+    return sendWithRetry(request, method, path, opts, ENDPOINT_RETRY.raw);
   },
 };
@@ -0,0 +1,159 @@
+import { decodeJwt } from '../utils/jwt';
+import { config } from '../utils/config';
+import { ROLES, type Role } from '../types/auth.dto';
+
+/**
+ * A request as a client sent it: the path and the options produced by
+ * `addRequestOptions` (unredacted; secrets are replaced when rendering).
+ */
+export type SentRequest = {
+  method: string;
+  url: string;
+  params?: Record<string, unknown>;
+  headers: Record<string, string>;
+  data?: unknown;
+  /** Status received, or the network error when there was no response. */
+  outcome: number | string;
+  /** Origin the request went to, when a response arrived. */
+  origin?: string;
+};
+
+// Shell variables the script expects, per role (same names as config/dev.env)
+const PASSWORD_VARS: Record<Role, string> = {
+  viewer: 'AUTH_VIEWER_PASSWORD',
+  librarian: 'AUTH_LIBRARIAN_PASSWORD',
+  admin: 'AUTH_PASSWORD',
+};
+
+const tokenVar = (role: Role) => `${role.toUpperCase()}_TOKEN`;
+
+// Stands in for a shell variable inside JSON until the JSON has been quoted
+const placeholder = (variable: string) => `@@${variable}@@`;
+
+/** Single-quotes `value` for sh; `@@VAR@@` placeholders become `$VAR` expansions. */
+function shellQuote(value: string): string {
+  const quoted = `'${value.replace(/'/g, `'\\''`)}'`.replace(/@@(\w+)@@/g, `'"$$$1"'`);
+  // Drop the empty '' left around a leading or trailing expansion
+  return quoted.length > 2 ? quoted.replace(/^''(?=.)|(?<=.)''$/g, '') : quoted;
+}
+
+/** Double-quotes a URL for sh so that only `$BASE_URL` expands. */
+function quoteUrl(path: string): string {
+  return `"$BASE_URL${path.replace(/[\\"$`]/g, '\\$&')}"`;
+}
+
+/**
+ * The role a token was issued for, when it is a current token of one of the
+ * configured users. Malformed, expired or foreign tokens are left as they are,
+ * since reproducing them is usually the point of the test.
+ */
+function roleOfToken(token: string): Role | undefined {
+  try {
+    const claims = decodeJwt(token);
+    if (claims.exp * 1000 <= Date.now()) return undefined;
+    return ROLES.find(role => role === claims.role && config.credentials[role].username === claims.username);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Role whose configured password was sent in a login body. */
+function roleOfPassword(username: unknown, password: unknown): Role | undefined {
+  return ROLES.find(
+    role =>
+      config.credentials[role].username === username && config.credentials[role].password === password
+  );
+}
+
+/** Replaces configured passwords in a body with placeholders, at any depth. */
+function maskPasswords(data: unknown): unknown {
+  if (Array.isArray(data)) return data.map(maskPasswords);
+  if (data === null || typeof data !== 'object') return data;
+
+  const record = data as Record<string, unknown>;
+  const role = roleOfPassword(record.username, record.password);
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      key === 'password' && role ? placeholder(PASSWORD_VARS[role]) : maskPasswords(value),
+    ])
+  );
+}
+
+function pathWithQuery({ url, params }: SentRequest): string {
+  if (!params || !Object.keys(params).length) return url;
+  const query = new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [key, String(value)])
+  );
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+}
+
+/**
+ * Renders one request as a curl command. Tokens of configured users become
+ * `$<ROLE>_TOKEN` and their passwords `$AUTH_*_PASSWORD`; `roles` collects
+ * the roles whose token the command needs.
+ */
+export function toCurl(request: SentRequest, roles: Set<Role> = new Set()): string {
+  const method = request.method.toUpperCase();
+  const lines = [
+    `curl -sS -i ${method === 'HEAD' ? '--head' : `-X ${method}`} ${quoteUrl(pathWithQuery(request))}`,
+  ];
+
+  for (const [name, value] of Object.entries(request.headers)) {
+    const bearer = /^Bearer (.+)$/.exec(value);
+    const role = name.toLowerCase() === 'authorization' && bearer?.[1] ? roleOfToken(bearer[1]) : undefined;
+    if (role) roles.add(role);
+    lines.push(`-H ${shellQuote(`${name}: ${role ? `Bearer ${placeholder(tokenVar(role))}` : value}`)}`);
+  }
+
+  if (request.data !== undefined) {
+    lines.push(
+      typeof request.data === 'string'
+        ? `--data-binary ${shellQuote(request.data)}`
+        : `--data-raw ${shellQuote(JSON.stringify(maskPasswords(request.data)))}`
+    );
+  }
+
+  return lines.join(' \\\n  ');
+}
+
+/** Shell lines that log in as `role` and store the JWT in `$<ROLE>_TOKEN`. */
+function loginSnippet(role: Role): string {
+  const body = JSON.stringify({
+    username: config.credentials[role].username,
+    password: placeholder(PASSWORD_VARS[role]),
+  });
+  return [
+    `${tokenVar(role)}=$(curl -sS -X POST "$BASE_URL/auth/login"`,
+    `-H 'Content-Type: application/json'`,
+    `--data-raw ${shellQuote(body)}`,
+    `| node -pe 'JSON.parse(require("fs").readFileSync(0, "utf8")).token')`,
+  ].join(' \\\n  ');
+}
+
+/**
+ * A ready-to-run sh script replaying `requests` (oldest first) against
+ * `baseURL`, preceded by a fresh login for every token it needs.
+ */
+export function curlScript(requests: readonly SentRequest[], baseURL: string, title = ''): string {
+  const roles = new Set<Role>();
+  const commands = requests.map(
+    (request, index) =>
+      `# ${index + 1}. ${request.method.toUpperCase()} ${pathWithQuery(request)} -> ${request.outcome}\n${toCurl(request, roles)}`
+  );
+  const logins = ROLES.filter(role => roles.has(role)).map(loginSnippet);
+  const passwords = [
+    ...new Set([...logins, ...commands].join('\n').match(/(?<=\$)AUTH_\w*PASSWORD/g) ?? []),
+  ];
+
+  return [
+    '#!/bin/sh',
+    `# Last ${requests.length} request(s)${title ? ` of "${title}"` : ''}, oldest first`,
+    ...(passwords.length ? [`# Export ${passwords.join(', ')} first (see config/dev.env)`] : []),
+    `BASE_URL=${shellQuote(baseURL)}`,
+    ...logins,
+    '',
+    commands.join('\n\n'),
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,202 @@
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { HttpMethod } from './retry';
+import type { SentRequest } from './curl';
+import { config } from '../utils/config';
+import { recordCoverageHit } from '../utils/api-coverage';
+
+/**
+ * One HTTP request/response pair as sent by a client, with secrets redacted.
+ * `response` is missing when the attempt failed without one (see `error`).
+ */
+export type HttpExchange = {
+  startedAt: string;
+  method: string;
+  url: string;
+  /** Attempt number within `sendWithRetry` (1 for the first try). */
+  attempt: number;
+  durationMs: number;
+  request: {
+    headers: Record<string, string>;
+    params?: Record<string, unknown>;
+    body?: unknown;
+  };
+  response?: {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  error?: string;
+};
+
+/**
+ * When exchanges are attached to the test report.
+ * - `failed`: only for tests that did not end with their expected status
+ * - `all`: for every test that made a request
+ * - `off`: never (the JSONL file, when configured, is still written)
+ */
+export type HttpLogMode = 'failed' | 'all' | 'off';
+
+/** The attachment mode configured by the HTTP_LOG environment variable. */
+export function getHttpLogMode(): HttpLogMode {
+  return config.features.httpLog;
+}
+
+export const REDACTED = '[REDACTED]';
+
+// Compared lower-cased; `token` covers the JWT in login responses
+const REDACTED_HEADERS = ['authorization', 'cookie', 'set-cookie'];
+const REDACTED_FIELDS = ['password', 'token'];
+
+// Catalog exports can be large; the report only needs enough to see what came back
+const MAX_BODY_CHARS = 10_000;
+
+/** Copy of `headers` with credentials replaced by `[REDACTED]`. */
+export function redactHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      REDACTED_HEADERS.includes(name.toLowerCase()) ? REDACTED : value,
+    ])
+  );
+}
+
+/** Copy of a JSON body with `password` and `token` fields replaced at any depth. */
+export function redactBody(body: unknown): unknown {
+  if (Array.isArray(body)) return body.map(redactBody);
+  if (body === null || typeof body !== 'object') return body;
+
+  return Object.fromEntries(
+    Object.entries(body).map(([key, value]) => [
+      key,
+      REDACTED_FIELDS.includes(key.toLowerCase()) ? REDACTED : redactBody(value),
+    ])
+  );
+}
+
+/** JSON bodies are logged parsed, anything else (or anything too long) as text. */
+function readableBody(text: string): unknown {
+  if (text.length > MAX_BODY_CHARS) {
+    return `${text.slice(0, MAX_BODY_CHARS)}… (${text.length - MAX_BODY_CHARS} more characters)`;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+type Recorder = {
+  exchanges: HttpExchange[];
+  /** The last `keepRequests` requests as sent, for curl reproductions. */
+  sent: SentRequest[];
+  keepRequests: number;
+  jsonlFile?: string | undefined;
+  testTitle?: string | undefined;
+};
+
+// The log of the running test; tests in a worker run one at a time
+let recorder: Recorder | null = null;
+
+/**
+ * Starts collecting the exchanges of the running test and returns them as a
+ * live array. With `jsonlFile` each exchange is also appended to that file
+ * as one JSON line, tagged with `testTitle`. The last `keepRequests` requests
+ * (default 10) are also kept unredacted for `recentRequests`.
+ */
+export function startHttpLog(
+  options: { jsonlFile?: string; testTitle?: string; keepRequests?: number } = {}
+): readonly HttpExchange[] {
+  recorder = { exchanges: [], sent: [], keepRequests: 10, ...options };
+  return recorder.exchanges;
+}
+
+/** The last requests of the running test, oldest first (empty when no log is active). */
+export function recentRequests(): readonly SentRequest[] {
+  return recorder ? [...recorder.sent] : [];
+}
+
+/** Stops collecting; requests made afterwards are not logged. */
+export function stopHttpLog(): void {
+  recorder = null;
+}
+
+async function record(exchange: HttpExchange, sent: SentRequest): Promise<void> {
+  const current = recorder;
+  if (!current) return;
+
+  current.sent.push(sent);
+  current.sent.splice(0, current.sent.length - current.keepRequests);
+  current.exchanges.push(exchange);
+  if (current.jsonlFile) {
+    await fs.mkdir(path.dirname(current.jsonlFile), { recursive: true });
+    await fs.appendFile(
+      current.jsonlFile,
+      JSON.stringify({ test: current.testTitle, ...exchange }) + '\n'
+    );
+  }
+}
+
+/**
+ * Sends one request and records it in the running test's log (no-op when no
+ * log is active) and in the API coverage. Network errors are recorded and
+ * rethrown.
+ */
+export async function sendLogged(
+  request: APIRequestContext,
+  method: HttpMethod,
+  url: string,
+  options: Record<string, any>,
+  attempt: number
+): Promise<APIResponse> {
+  const started = Date.now();
+  const base = {
+    startedAt: new Date(started).toISOString(),
+    method: method.toUpperCase(),
+    attempt,
+    request: {
+      headers: redactHeaders(options.headers),
+      ...(options.params !== undefined && { params: options.params }),
+      ...(options.data !== undefined && {
+        body: redactBody(typeof options.data === 'string' ? readableBody(options.data) : options.data),
+      }),
+    },
+  };
+
+  const sent = {
+    method: base.method,
+    url,
+    headers: options.headers ?? {},
+    ...(options.params !== undefined && { params: options.params }),
+    ...(options.data !== undefined && { data: options.data }),
+  };
+
+  let res: APIResponse;
+  try {
+    res = await request[method](url, { timeout: config.timeouts.requestMs, ...options });
+  } catch (e) {
+    recordCoverageHit(method, url, null);
+    const error = (e as Error).message;
+    await record({ ...base, url, durationMs: Date.now() - started, error }, { ...sent, outcome: error });
+    throw e;
+  }
+
+  recordCoverageHit(method, res.url(), res.status());
+  if (recorder) {
+    // The body is buffered by Playwright, so services can still read it afterwards
+    const text = method === 'head' ? '' : await res.text().catch(() => '');
+    const exchange: HttpExchange = {
+      ...base,
+      url: res.url(),
+      durationMs: Date.now() - started,
+      response: {
+        status: res.status(),
+        headers: redactHeaders(res.headers()),
+        body: redactBody(readableBody(text)),
+      },
+    };
+    await record(exchange, { ...sent, outcome: res.status(), origin: new URL(res.url()).origin });
+  }
+  return res;
+}
@@ -1,4 +1,5 @@
 import type { APIRequestContext } from '@playwright/test';
+import { tenantHeaders } from './tenant';
 
 /**
  * Build common headers for API requests.
@@ -14,10 +15,11 @@ export function buildHeaders(token?: string, contentType = 'application/json'):
 /**
  * Compact request options builder used by clients.
  * - attaches `data` when provided
- * - merges headers produced by `buildHeaders` with any additional headers
+ * - merges headers produced by `buildHeaders`, the current tenant's header and
+ *   any additional headers (which win, so a test can send another tenant)
  */
 export function addRequestOptions(data?: any, token?: string, headers?: Record<string, string>) {
-  const base = buildHeaders(token);
+  const base = { ...buildHeaders(token), ...tenantHeaders() };
   const merged = headers ? { ...base, ...headers } : base;
 
   const opts: Record<string, any> = {};
@@ -25,3 +27,34 @@ export function addRequestOptions(data?: any, token?: string, headers?: Record<s
   if (Object.keys(merged).length) opts.headers = merged;
   return opts;
 }
+
+/**
+ * Conditional request options for writes to a single resource.
+ * `ifMatch` is sent as `If-Match`; the server answers 412 when it is stale.
+ */
+export type PreconditionOptions = {
+  ifMatch?: string | undefined;
+};
+
+/**
+ * Headers for the given preconditions (empty when none are set).
+ */
+export function preconditionHeaders(options: PreconditionOptions = {}): Record<string, string> {
+  return options.ifMatch ? { 'If-Match': options.ifMatch } : {};
+}
+
+/**
+ * Options for POST requests that may be retried.
+ * `idempotencyKey` is sent as `Idempotency-Key`; without it a POST is never
+ * retried, since repeating it could apply the change twice.
+ */
+export type IdempotencyOptions = {
+  idempotencyKey?: string | undefined;
+};
+
+/**
+ * Headers for the given idempotency key (empty when none is set).
+ */
+export function idempotencyHeaders(options: IdempotencyOptions = {}): Record<string, string> {
+  return options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {};
+}
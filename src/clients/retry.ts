@@ -0,0 +1,183 @@
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import type { RequestAttempt } from '../types/api-result';
+import { config } from '../utils/config';
+import { sendLogged } from './http-log';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'head';
+
+/** How the delay grows between attempts. */
+export type BackoffStrategy = 'exponential' | 'linear' | 'fixed';
+
+/**
+ * When and how often a request is retried.
+ * Only statuses in `retryOn` and (optionally) network errors are retried, and
+ * a POST only when it carries an `Idempotency-Key` header.
+ */
+export type RetryPolicy = {
+  /** Total attempts including the first; 1 disables retries. */
+  maxAttempts: number;
+  backoff: BackoffStrategy;
+  /** Delay after the first failed attempt. */
+  baseDelayMs: number;
+  /** Upper bound for any single delay, including `Retry-After`. */
+  maxDelayMs: number;
+  /** Share of the delay that is randomised: 0 = none, 1 = anywhere in [0, delay]. */
+  jitter: number;
+  retryOn: readonly number[];
+  retryNetworkErrors: boolean;
+  /** Wait as long as a `Retry-After` header asks; give up when that exceeds `maxDelayMs`. */
+  respectRetryAfter: boolean;
+};
+
+/** Statuses that mean "not processed, try again later". */
+export const TRANSIENT_STATUSES: readonly number[] = [429, 502, 503, 504];
+
+function defaultPolicy(): RetryPolicy {
+  return {
+    ...config.retry,
+    jitter: 0.5,
+    retryOn: TRANSIENT_STATUSES,
+    retryNetworkErrors: true,
+    respectRetryAfter: true,
+  };
+}
+
+/** Policy used when a test has not overridden it; configured through RETRY_* variables. */
+export const DEFAULT_RETRY_POLICY: Readonly<RetryPolicy> = defaultPolicy();
+
+let activePolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+/** The policy requests use right now (the default unless `withRetryPolicy` is running). */
+export function getRetryPolicy(): Readonly<RetryPolicy> {
+  return activePolicy;
+}
+
+/**
+ * Runs `fn` with `overrides` applied on top of the current policy, then puts
+ * the previous policy back. Tests in a worker run one at a time, so this is
+ * safe to use from a test.
+ *
+ * @example
+ * await withRetryPolicy({ maxAttempts: 5, backoff: 'fixed', baseDelayMs: 0 }, async () => {
+ *   const result = await getBookById(request, '1');
+ *   expect(result.attempts).toHaveLength(3);
+ * });
+ */
+export async function withRetryPolicy<T>(
+  overrides: Partial<RetryPolicy>,
+  fn: () => Promise<T>
+): Promise<T> {
+  const previous = activePolicy;
+  activePolicy = { ...previous, ...overrides };
+  try {
+    return await fn();
+  } finally {
+    activePolicy = previous;
+  }
+}
+
+/**
+ * Delay before attempt `failedAttempt + 1`, with jitter applied.
+ * `random` is injectable so the jitter can be tested.
+ */
+export function backoffDelay(
+  policy: Pick<RetryPolicy, 'backoff' | 'baseDelayMs' | 'maxDelayMs' | 'jitter'>,
+  failedAttempt: number,
+  random: () => number = Math.random
+): number {
+  const growth = {
+    fixed: 1,
+    linear: failedAttempt,
+    exponential: 2 ** (failedAttempt - 1),
+  }[policy.backoff];
+  const delay = Math.min(policy.baseDelayMs * growth, policy.maxDelayMs);
+
+  return Math.round(delay - delay * policy.jitter * random());
+}
+
+/**
+ * Milliseconds a `Retry-After` header asks to wait: delay-seconds or an
+ * HTTP date. Undefined when the header is missing or unparseable.
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value) * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * GET, HEAD, PUT, PATCH and DELETE may be repeated; POST only with an
+ * `Idempotency-Key`, since repeating it could create the same book twice.
+ */
+export function isRetryableRequest(method: HttpMethod, headers: Record<string, string> = {}): boolean {
+  if (method !== 'post') return true;
+  return Object.keys(headers).some(name => name.toLowerCase() === 'idempotency-key');
+}
+
+// Attempts behind each response, read by the service layer via `attemptsOf`
+const responseAttempts = new WeakMap<APIResponse, readonly RequestAttempt[]>();
+
+/** Attempts recorded for a response returned by `sendWithRetry` (one when unknown). */
+export function attemptsOf(res: APIResponse): readonly RequestAttempt[] {
+  return responseAttempts.get(res) ?? [{ attempt: 1, status: res.status(), durationMs: 0 }];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sends a request, retrying according to the active policy merged with
+ * `overrides` (e.g. an endpoint's own `retryOn`). Resolves with the last
+ * response; throws (with the last network error as `cause`) when the final
+ * attempt got no response.
+ */
+export async function sendWithRetry(
+  request: APIRequestContext,
+  method: HttpMethod,
+  url: string,
+  options: Record<string, any> = {},
+  overrides: Partial<RetryPolicy> = {}
+): Promise<APIResponse> {
+  const policy = { ...activePolicy, ...overrides };
+  const maxAttempts = isRetryableRequest(method, options.headers) ? Math.max(1, policy.maxAttempts) : 1;
+  const attempts: RequestAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const started = Date.now();
+    let res: APIResponse | undefined;
+    let error: Error | undefined;
+    try {
+      res = await sendLogged(request, method, url, options, attempt);
+    } catch (e) {
+      error = e as Error;
+    }
+
+    const record: RequestAttempt = res
+      ? { attempt, status: res.status(), durationMs: Date.now() - started }
+      : { attempt, error: error?.message ?? 'unknown error', durationMs: Date.now() - started };
+    attempts.push(record);
+
+    const retryable = res ? policy.retryOn.includes(res.status()) : policy.retryNetworkErrors;
+    let delay = retryable && attempt < maxAttempts ? backoffDelay(policy, attempt) : undefined;
+
+    const retryAfter = policy.respectRetryAfter ? parseRetryAfter(res?.headers()['retry-after']) : undefined;
+    if (delay !== undefined && retryAfter !== undefined) {
+      delay = retryAfter <= policy.maxDelayMs ? retryAfter : undefined;
+    }
+
+    if (delay === undefined) {
+      if (!res) {
+        throw new Error(
+          `${method.toUpperCase()} ${url} failed after ${attempt} attempt(s): ${record.error}`,
+          { cause: error }
+        );
+      }
+      responseAttempts.set(res, attempts);
+      return res;
+    }
+
+    record.delayMs = delay;
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Store partition of the mock (see `X-Tenant-Id` in the API examples). The
+ * tenant fixture sets one per worker or per test; `addRequestOptions` stamps
+ * it on every client request.
+ */
+export const TENANT_HEADER = 'X-Tenant-Id';
+
+// Tests in a worker run one at a time, so one current tenant per process is enough
+let activeTenant: string | undefined;
+
+/** The tenant requests are sent for, if any. */
+export function getTenant(): string | undefined {
+  return activeTenant;
+}
+
+/** Sets the tenant for the requests that follow; `undefined` uses the shared store. */
+export function setTenant(tenant: string | undefined): void {
+  activeTenant = tenant;
+}
+
+/**
+ * Runs `fn` with requests sent for `tenant`, then puts the previous tenant
+ * back.
+ *
+ * @example
+ * await withTenant('isolation-check', async () => {
+ *   const list = await listBooks(request);
+ * });
+ */
+export async function withTenant<T>(tenant: string | undefined, fn: () => Promise<T>): Promise<T> {
+  const previous = activeTenant;
+  activeTenant = tenant;
+  try {
+    return await fn();
+  } finally {
+    activeTenant = previous;
+  }
+}
+
+/**
+ * Header for the current tenant (empty when none is set).
+ */
+export function tenantHeaders(): Record<string, string> {
+  return activeTenant ? { [TENANT_HEADER]: activeTenant } : {};
+}
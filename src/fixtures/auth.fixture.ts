@@ -1,38 +1,94 @@
-import { test as base, request as playwrightRequest } from '@playwright/test';
+import { request as playwrightRequest } from '@playwright/test';
+import { test as base } from './http-log.fixture';
 import { authenticate } from '../services/auth.service';
-import { BASE_URL, AUTH_USERNAME, AUTH_PASSWORD } from '../utils/env';
-import { LoginPayload } from '../clients/auth.client';
+import { TokenCache } from '../services/token-cache';
+import { config } from '../utils/config';
+import type { Role } from '../types/auth.dto';
 
 // Extend Playwright base test
-export const test = base.extend<{
-  token: string;
-}>({
+export const test = base.extend<
+  {
+    token: string;
+    freshToken: string;
+    asRole: (role: Role) => Promise<string>;
+  },
+  {
+    tokenCache: TokenCache;
+    tokenCacheFor: (role: Role) => TokenCache;
+  }
+>({
+  // One lazily created cache per role, shared by every test the worker runs
+  tokenCacheFor: [
+    async ({}, use) => {
+      const api = await playwrightRequest.newContext({
+        baseURL: config.baseURL,
+      });
+      const caches = new Map<Role, TokenCache>();
+
+      await use(role => {
+        let cache = caches.get(role);
+        if (!cache) {
+          cache = new TokenCache(api, config.credentials[role], config.timeouts.tokenRefreshMarginSeconds);
+          caches.set(role, cache);
+        }
+        return cache;
+      });
+
+      await api.dispose();
+    },
+    { scope: 'worker' }
+  ],
+
+  // One login per worker: the default (admin) token is shared by every test the worker runs
+  tokenCache: [
+    async ({ tokenCacheFor }, use) => {
+      await use(tokenCacheFor('admin'));
+    },
+    { scope: 'worker' }
+  ],
+
   token: [
+    async ({ tokenCache }, use) => {
+      // Cached token, refreshed automatically shortly before it expires
+      const { token } = await tokenCache.get();
+      await use(token);
+    },
+    { scope: 'test' }
+  ],
+
+  asRole: [
+    async ({ tokenCacheFor }, use) => {
+      // Token of the configured user for the given role
+      await use(async role => (await tokenCacheFor(role).get()).token);
+    },
+    { scope: 'test' }
+  ],
+
+  freshToken: [
     async ({}, use) => {
       // Create an isolated API request context
       const api = await playwrightRequest.newContext({
-        baseURL: BASE_URL,
+        baseURL: config.baseURL,
       });
 
-      // Login using our AuthService
-      const result = await authenticate(api, {
-        username: AUTH_USERNAME,
-        password: AUTH_PASSWORD,
-      } as LoginPayload);
-
-      if (!result.token) {
-        throw new Error(
-          'Authentication failed: no token returned from /auth/login'
-        );
-      }
+      try {
+        // Login using our AuthService
+        const result = await authenticate(api, config.credentials.admin);
 
-      // Expose token to the test
-      await use(result.token);
+        if (!result.token) {
+          throw new Error(
+            'Authentication failed: no token returned from /auth/login'
+          );
+        }
 
-      // Cleanup
-      await api.dispose();
+        // Expose token to the test
+        await use(result.token);
+      } finally {
+        // Cleanup, also when the login failed
+        await api.dispose();
+      }
     },
-    { scope: 'test' } 
+    { scope: 'test' }
   ],
 });
 
@@ -0,0 +1,28 @@
+import { test as authTest } from './auth.fixture';
+import { reseed, resolveSeed } from '../utils/random';
+
+// Extend the auth fixtures with a per-test random seed for data builders
+export const test = authTest.extend<{
+  seed: number;
+}>({
+  seed: [
+    async ({}, use, testInfo) => {
+      // Reseed the shared generator so every builder in this test is reproducible
+      const seed = resolveSeed();
+      reseed(seed);
+
+      await use(seed);
+
+      // Print and attach the seed when the test failed so the data can be regenerated
+      if (testInfo.status !== testInfo.expectedStatus) {
+        const description = `Re-run with TEST_SEED=${seed} to reproduce the generated data`;
+        testInfo.annotations.push({ type: 'seed', description });
+        await testInfo.attach('seed', { body: description, contentType: 'text/plain' });
+        console.log(`[${testInfo.title}] generated data seed: TEST_SEED=${seed}`);
+      }
+    },
+    { scope: 'test', auto: true }
+  ],
+});
+
+export const expect = test.expect;
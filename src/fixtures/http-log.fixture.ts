@@ -0,0 +1,56 @@
+import { test as base } from './tenant.fixture';
+import * as path from 'path';
+import {
+  getHttpLogMode,
+  recentRequests,
+  startHttpLog,
+  stopHttpLog,
+  type HttpExchange,
+} from '../clients/http-log';
+import { curlScript, type SentRequest } from '../clients/curl';
+import { config } from '../utils/config';
+
+// Record every client request of a test; attach the log and curl reproductions to its report
+export const test = base.extend<{
+  httpLog: readonly HttpExchange[];
+}>({
+  httpLog: [
+    async ({}, use, testInfo) => {
+      const mode = getHttpLogMode();
+      const exchanges = startHttpLog({
+        // One file per worker, so parallel workers never interleave lines
+        ...(config.features.httpLogDir && {
+          jsonlFile: path.resolve(config.features.httpLogDir, `worker-${testInfo.parallelIndex}.jsonl`),
+        }),
+        testTitle: testInfo.titlePath.join(' > '),
+        keepRequests: config.features.curlReproLimit,
+      });
+
+      let sent: readonly SentRequest[];
+      try {
+        await use(exchanges);
+      } finally {
+        sent = recentRequests();
+        stopHttpLog();
+      }
+
+      const failed = testInfo.status !== testInfo.expectedStatus;
+      if (failed && sent.length) {
+        const baseURL = sent.find(request => request.origin)?.origin ?? config.baseURL;
+        await testInfo.attach('curl-repro.sh', {
+          body: curlScript(sent, baseURL, testInfo.title),
+          contentType: 'text/plain',
+        });
+      }
+      if (exchanges.length && (mode === 'all' || (mode === 'failed' && failed))) {
+        await testInfo.attach('http-log', {
+          body: JSON.stringify(exchanges, null, 2),
+          contentType: 'application/json',
+        });
+      }
+    },
+    { scope: 'test', auto: true }
+  ],
+});
+
+export const expect = test.expect;
@@ -0,0 +1,134 @@
+import { request as playwrightRequest } from '@playwright/test';
+import { test as dataTest } from './data.fixture';
+import { createBook, deleteBook, type BookResult } from '../services/books.service';
+import {
+  resetStore,
+  restoreSnapshot,
+  saveSnapshot,
+  seedStore,
+  type StoreResult,
+} from '../services/admin.service';
+import type { Book } from '../schemas/book.schema';
+import type { CreateBookPayload } from '../types/book.dto';
+import type { IdempotencyOptions } from '../clients/http.helpers';
+import { config } from '../utils/config';
+import { assertOk } from '../utils/result-helpers';
+
+/**
+ * Books created through the `library` fixture are deleted after the test,
+ * whether it passed or not.
+ */
+export type Library = {
+  /** Same as `books.service.createBook`, but records the created id for cleanup. */
+  createBook(
+    payload: CreateBookPayload | Partial<CreateBookPayload>,
+    options?: IdempotencyOptions
+  ): Promise<BookResult>;
+  /** Registers a book created by other means for cleanup. */
+  track(id: string | number): void;
+  /** Ids that will be deleted in teardown. */
+  readonly createdIds: readonly string[];
+};
+
+/**
+ * A store reset to the seed catalog for one test and put back afterwards.
+ * The reset and restore apply to the test's tenant store, or to the whole
+ * server with TENANT_ISOLATION=off; then tests using it must not run alongside
+ * tests that need their own books to stay put.
+ */
+export type FreshLibrary = {
+  /** Books in the store: the seed catalog, or the last `seed` call. */
+  readonly books: readonly Book[];
+  /** Replaces the catalog with `payloads`; ids restart at 1. */
+  seed(payloads: CreateBookPayload[]): Promise<Book[]>;
+  /** Back to the seed catalog. */
+  reset(): Promise<Book[]>;
+  /** Same as `books.service.createBook`; no cleanup needed, the restore discards it. */
+  createBook(payload: CreateBookPayload | Partial<CreateBookPayload>): Promise<BookResult>;
+};
+
+// Extend the data fixtures with a self-cleaning library and a fresh store
+export const test = dataTest.extend<{
+  library: Library;
+  freshLibrary: FreshLibrary;
+}>({
+  library: [
+    async ({ token }, use, testInfo) => {
+      const api = await playwrightRequest.newContext({
+        baseURL: config.baseURL,
+      });
+      const createdIds: string[] = [];
+
+      await use({
+        createBook: async (payload, options) => {
+          const result = await createBook(api, payload, token, options);
+          if (result.ok) createdIds.push(result.book.id);
+          return result;
+        },
+        track: id => {
+          createdIds.push(String(id));
+        },
+        createdIds,
+      });
+
+      // Cleanup: a 404 means the test already deleted the book itself
+      for (const id of createdIds) {
+        try {
+          const result = await deleteBook(api, id, token);
+          if (!result.ok && result.status !== 404) {
+            testInfo.annotations.push({
+              type: 'cleanup-failure',
+              description: `DELETE /books/${id} returned ${result.status}: ${JSON.stringify(result.body)}`,
+            });
+          }
+        } catch (error) {
+          testInfo.annotations.push({
+            type: 'cleanup-failure',
+            description: `DELETE /books/${id} threw: ${(error as Error).message}`,
+          });
+        }
+      }
+
+      await api.dispose();
+    },
+    { scope: 'test' }
+  ],
+
+  freshLibrary: [
+    async ({ token }, use, testInfo) => {
+      const api = await playwrightRequest.newContext({
+        baseURL: config.baseURL,
+      });
+      // Snapshot names must be URL-safe; test ids already are
+      const snapshot = `fresh-library-${testInfo.testId}-${testInfo.retry}`;
+      const storeBooks = (result: StoreResult, context: string) => {
+        assertOk(result, context);
+        return result.books;
+      };
+
+      assertOk(await saveSnapshot(api, snapshot, token), 'saveSnapshot');
+      let books = storeBooks(await resetStore(api, token), 'resetStore');
+      await use({
+        get books() {
+          return books;
+        },
+        seed: async payloads => (books = storeBooks(await seedStore(api, payloads, token), 'seedStore')),
+        reset: async () => (books = storeBooks(await resetStore(api, token), 'resetStore')),
+        createBook: payload => createBook(api, payload, token),
+      });
+
+      const restored = await restoreSnapshot(api, snapshot, token);
+      if (!restored.ok) {
+        testInfo.annotations.push({
+          type: 'cleanup-failure',
+          description: `POST /__admin/restore/${snapshot} returned ${restored.status}: ${JSON.stringify(restored.body)}`,
+        });
+      }
+
+      await api.dispose();
+    },
+    { scope: 'test' }
+  ],
+});
+
+export const expect = test.expect;
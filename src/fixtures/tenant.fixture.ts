@@ -0,0 +1,44 @@
+import { test as base } from '@playwright/test';
+import { randomUUID } from 'crypto';
+import { setTenant } from '../clients/tenant';
+import { config } from '../utils/config';
+
+// Give every worker (and, with TENANT_ISOLATION=test, every test) a store of its own
+export const test = base.extend<
+  {
+    tenant: string | undefined;
+  },
+  {
+    workerTenant: string | undefined;
+  }
+>({
+  workerTenant: [
+    async ({}, use, workerInfo) => {
+      // Unique per run, so a server that outlives the run never hands back old data
+      const tenant =
+        config.features.tenantIsolation === 'off'
+          ? undefined
+          : `w${workerInfo.parallelIndex}-${randomUUID().slice(0, 8)}`;
+      setTenant(tenant);
+      await use(tenant);
+      setTenant(undefined);
+    },
+    { scope: 'worker', auto: true }
+  ],
+
+  tenant: [
+    async ({ workerTenant }, use, testInfo) => {
+      // A retry starts again from the seed catalog
+      const tenant =
+        config.features.tenantIsolation === 'test'
+          ? `${workerTenant}-${testInfo.testId}-r${testInfo.retry}`
+          : workerTenant;
+      setTenant(tenant);
+      await use(tenant);
+      setTenant(workerTenant);
+    },
+    { scope: 'test', auto: true }
+  ],
+});
+
+export const expect = test.expect;
@@ -0,0 +1,438 @@
+import { z, type ZodType } from 'zod';
+import type { Role } from '../types/auth.dto';
+import type { ResponseSchemas } from '../utils/response-validation';
+import { RESPONSE_SCHEMAS as BOOK_RESPONSES } from '../services/books.service';
+import { RESPONSE_SCHEMAS as AUTH_RESPONSES } from '../services/auth.service';
+import * as book from '../schemas/book.schema';
+import * as bulk from '../schemas/bulk.schema';
+import * as catalog from '../schemas/catalog.schema';
+import * as search from '../schemas/search.schema';
+import * as auth from '../schemas/auth.schema';
+import * as error from '../schemas/error.schema';
+import { HealthResponseSchema } from '../schemas/health.schema';
+
+/**
+ * OpenAPI 3.1 description of the Book Library API, generated from the Zod
+ * schemas the services validate responses with. The /__admin test-support
+ * endpoints are left out: they are not part of the API under test.
+ *
+ * Regenerate the mock's copy after changing a schema or an operation:
+ *   npm run openapi
+ */
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export type OperationParameter = {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required?: boolean;
+  description?: string;
+  schema: ZodType;
+  example?: unknown;
+};
+
+/**
+ * One operation of the document. `responses` are the service's schemas per
+ * status; `example` request values are what the contract spec sends.
+ */
+export type Operation = {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  /** Roles allowed to call it; operations without roles are public. */
+  roles?: readonly Role[];
+  parameters?: OperationParameter[];
+  requestBody?: Record<string, { schema: ZodType; example?: unknown }>;
+  responses: ResponseSchemas;
+  /** Content types other than JSON, keyed by status. */
+  alternateContent?: Partial<Record<number, Record<string, ZodType>>>;
+  /** Statuses whose response carries the book's ETag. */
+  etagOn?: number[];
+};
+
+const COMPONENTS_URI = '#/components/schemas/';
+
+// Schemas published under components/schemas; other schemas are inlined
+const COMPONENT_SCHEMAS: Record<string, ZodType> = {
+  Isbn: book.IsbnSchema,
+  PublishedYear: book.PublishedYearSchema,
+  Book: book.BookSchema,
+  CreateBookPayload: book.CreateBookPayloadSchema,
+  UpdateBookPayload: book.UpdateBookPayloadSchema,
+  BookMergePatch: book.BookMergePatchSchema,
+  BookResponse: book.BookResponseSchema,
+  GetBookResponse: book.GetBookResponseSchema,
+  Pagination: book.PaginationSchema,
+  BookListResponse: book.BookListResponseSchema,
+  DeleteBookResponse: book.DeleteBookResponseSchema,
+  SearchHit: search.SearchHitSchema,
+  SearchResult: search.SearchResultSchema,
+  BulkOperation: bulk.BulkOperationSchema,
+  BulkRequest: bulk.BulkRequestSchema,
+  BulkItemResult: bulk.BulkItemResultSchema,
+  BulkResult: bulk.BulkResultSchema,
+  BookExport: catalog.BookExportSchema,
+  ImportResult: catalog.ImportResultSchema,
+  ImportRowsError: catalog.ImportRowsErrorSchema,
+  LoginRequest: auth.LoginRequestSchema,
+  LoginResponse: auth.LoginResponseSchema,
+  LoginError: auth.LoginErrorSchema,
+  ErrorResponse: error.ErrorResponseSchema,
+  BadRequestError: error.BadRequestErrorSchema,
+  MissingFieldsError: error.MissingFieldsErrorSchema,
+  InvalidIsbnError: error.InvalidIsbnErrorSchema,
+  MissingTokenError: error.MissingTokenErrorSchema,
+  InvalidTokenError: error.InvalidTokenErrorSchema,
+  ForbiddenError: error.ForbiddenErrorSchema,
+  NotFoundError: error.NotFoundErrorSchema,
+  PreconditionFailedError: error.PreconditionFailedErrorSchema,
+  UnsupportedMediaTypeError: error.UnsupportedMediaTypeErrorSchema,
+  HealthResponse: HealthResponseSchema,
+};
+
+const WRITE_ROLES: readonly Role[] = ['librarian', 'admin'];
+
+const bookIdParameter: OperationParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: z.string(),
+  example: '1',
+};
+
+const ifMatchParameter: OperationParameter = {
+  name: 'If-Match',
+  in: 'header',
+  description: 'ETag from an earlier read; 412 when the book has changed since',
+  schema: z.string(),
+};
+
+const tenantParameter: OperationParameter = {
+  name: 'X-Tenant-Id',
+  in: 'header',
+  description: 'Store of its own, created from the seed catalog on first use; the shared store when omitted',
+  schema: z.string().regex(/^[\w.-]{1,64}$/),
+};
+
+const exampleBook = {
+  title: 'The Left Hand of Darkness',
+  author: 'Ursula K. Le Guin',
+  isbn: '978-0441478125',
+  publishedYear: 1969,
+  available: true,
+};
+
+/**
+ * Every documented operation, keyed by OpenAPI path and method.
+ * Login examples use `<password>`, which the contract spec replaces.
+ */
+export const OPERATIONS: Record<string, Partial<Record<HttpMethod, Operation>>> = {
+  '/health': {
+    get: {
+      operationId: 'getHealth',
+      summary: 'Liveness check',
+      tags: ['health'],
+      responses: { 200: HealthResponseSchema },
+    },
+  },
+  '/auth/login': {
+    post: {
+      operationId: 'authenticate',
+      summary: 'Log in and receive a JWT valid for 24 hours',
+      tags: ['auth'],
+      requestBody: {
+        'application/json': {
+          schema: auth.LoginRequestSchema,
+          example: { username: 'admin', password: '<password>' },
+        },
+      },
+      responses: AUTH_RESPONSES.authenticate,
+    },
+  },
+  '/books': {
+    get: {
+      operationId: 'listBooks',
+      summary: 'List books with filtering, sorting and pagination',
+      tags: ['books'],
+      parameters: [
+        {
+          name: 'limit',
+          in: 'query',
+          description: 'Page size (1-100); all books when omitted',
+          schema: z.number().int().min(1).max(100),
+          example: 5,
+        },
+        { name: 'offset', in: 'query', schema: z.number().int().min(0), example: 0 },
+        { name: 'author', in: 'query', description: 'Case-insensitive substring match', schema: z.string() },
+        { name: 'available', in: 'query', schema: z.boolean() },
+        { name: 'publishedYearMin', in: 'query', schema: z.number().int().min(0) },
+        { name: 'publishedYearMax', in: 'query', schema: z.number().int().min(0) },
+        {
+          name: 'sort',
+          in: 'query',
+          description: '`<field>:asc|desc` with field one of id, title, author, publishedYear',
+          schema: z.string(),
+          example: 'title:asc',
+        },
+        tenantParameter,
+      ],
+      responses: BOOK_RESPONSES.listBooks,
+    },
+    post: {
+      operationId: 'createBook',
+      summary: 'Create a book',
+      tags: ['books'],
+      roles: WRITE_ROLES,
+      parameters: [tenantParameter],
+      requestBody: {
+        'application/json': { schema: book.CreateBookPayloadSchema, example: exampleBook },
+      },
+      responses: BOOK_RESPONSES.createBook,
+      etagOn: [201],
+    },
+  },
+  '/books/search': {
+    get: {
+      operationId: 'searchBooks',
+      summary: 'Full-text search over title, author and ISBN, ranked by relevance',
+      tags: ['books'],
+      parameters: [{ name: 'q', in: 'query', required: true, schema: z.string().min(1), example: 'clean code' }, tenantParameter],
+      responses: BOOK_RESPONSES.searchBooks,
+    },
+  },
+  '/books/bulk': {
+    post: {
+      operationId: 'bulkBooks',
+      summary: 'Apply create/update/delete operations in one request',
+      tags: ['books'],
+      roles: WRITE_ROLES,
+      parameters: [
+        {
+          name: 'atomic',
+          in: 'query',
+          description: 'Apply all operations or none (409 when one fails)',
+          schema: z.boolean(),
+          example: false,
+        },
+        tenantParameter,
+      ],
+      requestBody: {
+        'application/json': {
+          schema: bulk.BulkRequestSchema,
+          example: {
+            operations: [
+              { op: 'create', data: exampleBook },
+              { op: 'update', id: '1', data: { available: false } },
+            ],
+          },
+        },
+      },
+      responses: BOOK_RESPONSES.bulkBooks,
+    },
+  },
+  '/books/export': {
+    get: {
+      operationId: 'exportBooks',
+      summary: 'Download the whole catalog as JSON or CSV',
+      tags: ['catalog'],
+      parameters: [{ name: 'format', in: 'query', schema: z.enum(['json', 'csv']), example: 'json' }, tenantParameter],
+      responses: BOOK_RESPONSES.exportBooks,
+      alternateContent: { 200: { 'text/csv': z.string() } },
+    },
+  },
+  '/books/import': {
+    post: {
+      operationId: 'importBooks',
+      summary: 'Create books from a JSON array or CSV file (all rows or none)',
+      tags: ['catalog'],
+      roles: WRITE_ROLES,
+      parameters: [tenantParameter],
+      requestBody: {
+        'application/json': { schema: z.array(book.CreateBookPayloadSchema).min(1).max(1000), example: [exampleBook] },
+        'text/csv': { schema: z.string() },
+      },
+      responses: BOOK_RESPONSES.importBooks,
+    },
+  },
+  '/books/{id}': {
+    get: {
+      operationId: 'getBookById',
+      summary: 'Get a book',
+      tags: ['books'],
+      parameters: [bookIdParameter, tenantParameter],
+      responses: BOOK_RESPONSES.getBookById,
+      etagOn: [200],
+    },
+    put: {
+      operationId: 'updateBook',
+      summary: 'Update some or all fields of a book',
+      tags: ['books'],
+      roles: WRITE_ROLES,
+      parameters: [bookIdParameter, ifMatchParameter, tenantParameter],
+      requestBody: {
+        'application/json': { schema: book.UpdateBookPayloadSchema, example: { available: false } },
+      },
+      responses: BOOK_RESPONSES.updateBook,
+      etagOn: [200],
+    },
+    patch: {
+      operationId: 'patchBook',
+      summary: 'Apply a JSON Merge Patch (RFC 7396); null removes isbn or publishedYear',
+      tags: ['books'],
+      roles: WRITE_ROLES,
+      parameters: [bookIdParameter, ifMatchParameter, tenantParameter],
+      requestBody: {
+        'application/merge-patch+json': { schema: book.BookMergePatchSchema, example: { publishedYear: null } },
+        'application/json': { schema: book.BookMergePatchSchema },
+      },
+      responses: BOOK_RESPONSES.patchBook,
+      etagOn: [200],
+    },
+    delete: {
+      operationId: 'deleteBook',
+      summary: 'Delete a book',
+      tags: ['books'],
+      roles: ['admin'],
+      parameters: [bookIdParameter, ifMatchParameter, tenantParameter],
+      responses: BOOK_RESPONSES.deleteBook,
+    },
+  },
+};
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  207: 'Some operations failed',
+  400: 'Bad Request',
+  401: 'Missing, invalid or expired token',
+  403: 'Role not allowed',
+  404: 'Not Found',
+  409: 'Atomic batch rolled back',
+  412: 'Precondition Failed',
+  415: 'Unsupported Media Type',
+};
+
+/** Registry of the component schemas, for `$ref`s between them. */
+function componentRegistry() {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(COMPONENT_SCHEMAS)) registry.add(schema, { id });
+  return registry;
+}
+
+/** Converts schemas as sent on the wire (`io: 'input'`, so before transforms). */
+const JSON_SCHEMA_PARAMS = {
+  io: 'input' as const,
+  override: ({ zodSchema, jsonSchema }: { zodSchema: unknown; jsonSchema: Record<string, unknown> }) => {
+    // Refinements do not convert, so describe them
+    if (zodSchema === book.IsbnSchema) {
+      jsonSchema.description = '10 or 13 digits once hyphens and spaces are removed';
+    }
+    // The upper bound moves every new year; keep the document stable
+    if (zodSchema === book.PublishedYearSchema) {
+      delete jsonSchema.maximum;
+      jsonSchema.description = 'From 1000 up to next year';
+    }
+  },
+};
+
+function schemaRef(schema: ZodType, registry: ReturnType<typeof componentRegistry>): object {
+  const id = registry.get(schema)?.id;
+  if (id) return { $ref: `${COMPONENTS_URI}${id}` };
+
+  // Inline schema: nested components come back as $defs, point them at components instead
+  const { $schema, $defs, ...inline } = z.toJSONSchema(schema, { ...JSON_SCHEMA_PARAMS, metadata: registry });
+  return JSON.parse(JSON.stringify(inline).replaceAll('"#/$defs/', `"${COMPONENTS_URI}`));
+}
+
+function buildOperation(operation: Operation, registry: ReturnType<typeof componentRegistry>): object {
+  const roles = operation.roles;
+  const responses = Object.fromEntries(
+    Object.entries(operation.responses).map(([status, schema]) => [
+      status,
+      {
+        description: STATUS_DESCRIPTIONS[Number(status)] ?? 'Response',
+        ...(operation.etagOn?.includes(Number(status)) && {
+          headers: { ETag: { description: 'Version of the book, for If-Match', schema: { type: 'string' } } },
+        }),
+        content: {
+          'application/json': { schema: schemaRef(schema as ZodType, registry) },
+          ...Object.fromEntries(
+            Object.entries(operation.alternateContent?.[Number(status)] ?? {}).map(([type, alternate]) => [
+              type,
+              { schema: schemaRef(alternate, registry) },
+            ])
+          ),
+        },
+      },
+    ])
+  );
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    tags: operation.tags,
+    ...(roles && {
+      description: `Requires the ${roles.join(' or ')} role.`,
+      security: [{ bearerAuth: [] }],
+    }),
+    ...(operation.parameters && {
+      parameters: operation.parameters.map(({ schema, ...parameter }) => ({
+        ...parameter,
+        schema: schemaRef(schema, registry),
+      })),
+    }),
+    ...(operation.requestBody && {
+      requestBody: {
+        required: true,
+        content: Object.fromEntries(
+          Object.entries(operation.requestBody).map(([type, { schema, example }]) => [
+            type,
+            { schema: schemaRef(schema, registry), ...(example !== undefined && { example }) },
+          ])
+        ),
+      },
+    }),
+    responses,
+  };
+}
+
+/** The OpenAPI 3.1 document served by the mock at GET /openapi.json. */
+export function buildOpenApiDocument(): Record<string, unknown> {
+  const registry = componentRegistry();
+  const { schemas } = z.toJSONSchema(registry, {
+    ...JSON_SCHEMA_PARAMS,
+    uri: id => `${COMPONENTS_URI}${id}`,
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Book Library API',
+      version: '1.0.0',
+      description: 'Mock Book Library API. Generated from the Zod schemas in src/schemas; do not edit by hand.',
+    },
+    servers: [{ url: 'http://localhost:3000' }],
+    tags: [
+      { name: 'health' },
+      { name: 'auth' },
+      { name: 'books' },
+      { name: 'catalog', description: 'Whole-catalog export and import' },
+    ],
+    paths: Object.fromEntries(
+      Object.entries(OPERATIONS).map(([path, operations]) => [
+        path,
+        Object.fromEntries(
+          Object.entries(operations).map(([method, operation]) => [method, buildOperation(operation, registry)])
+        ),
+      ])
+    ),
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(schemas).map(([id, { $schema, $id, ...schema }]) => [id, schema])
+      ),
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildOpenApiDocument } from './document';
+
+/** Where the mock serves the document from (GET /openapi.json). */
+export const OPENAPI_FILE = path.resolve(__dirname, '..', '..', 'book-library-api-mock', 'openapi.json');
+
+/** The document as written to OPENAPI_FILE. */
+export function renderOpenApiDocument(): string {
+  return JSON.stringify(buildOpenApiDocument(), null, 2) + '\n';
+}
+
+// npm run openapi
+if (require.main === module) {
+  fs.writeFileSync(OPENAPI_FILE, renderOpenApiDocument());
+  console.log(`Wrote ${path.relative(process.cwd(), OPENAPI_FILE)}`);
+}
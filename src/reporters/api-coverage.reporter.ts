@@ -0,0 +1,81 @@
+import type { Reporter } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../utils/config';
+import {
+  API_COVERAGE_DIR_ENV,
+  buildCoverageReport,
+  readCoverageHits,
+  renderCoverageHtml,
+  routesFrom,
+  type Route,
+} from '../utils/api-coverage';
+
+export type ApiCoverageReporterOptions = {
+  /** Where coverage.json and index.html are written (default `api-coverage`). */
+  outputDir?: string;
+};
+
+/**
+ * Playwright reporter writing an API endpoint coverage matrix after the run.
+ * Hits come from the workers (every client request, see `recordCoverageHit`);
+ * routes from the mock's 404 `availableEndpoints` and statuses from its
+ * OpenAPI document.
+ */
+class ApiCoverageReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly hitsDir: string;
+  private routes: Promise<Route[]> = Promise.resolve([]);
+
+  constructor(options: ApiCoverageReporterOptions = {}) {
+    this.outputDir = path.resolve(options.outputDir ?? 'api-coverage');
+    this.hitsDir = path.join(this.outputDir, 'hits');
+    fs.rmSync(this.hitsDir, { recursive: true, force: true });
+
+    // Reporters are created before any worker starts, and workers inherit the environment
+    process.env[API_COVERAGE_DIR_ENV] = this.hitsDir;
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  // Global teardown may stop a mock started by global setup before onEnd
+  onBegin(): void {
+    this.routes = this.fetchRoutes();
+  }
+
+  async onEnd(): Promise<void> {
+    const routes = await this.routes;
+    const report = buildCoverageReport(routes, readCoverageHits(this.hitsDir));
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, 'coverage.json'), JSON.stringify(report, null, 2));
+    fs.writeFileSync(path.join(this.outputDir, 'index.html'), renderCoverageHtml(report));
+
+    const { summary } = report;
+    console.log(
+      `API coverage: ${summary.coveredRoutes}/${summary.routes} routes, ` +
+        `${summary.coveredStatuses}/${summary.documentedStatuses} documented statuses ` +
+        `(${path.relative(process.cwd(), path.join(this.outputDir, 'index.html'))})`
+    );
+  }
+
+  /** The mock's routes; empty (every hit unmatched) when it cannot be reached. */
+  private async fetchRoutes(): Promise<Route[]> {
+    // Global setup replaces BASE_URL when it starts the mock
+    const baseURL = process.env.BASE_URL || config.baseURL;
+    try {
+      const notFound = await fetch(new URL('/__api-coverage__', baseURL));
+      const { availableEndpoints } = (await notFound.json()) as { availableEndpoints: string[] };
+      const openApi = await fetch(new URL('/openapi.json', baseURL));
+      const document = openApi.ok ? ((await openApi.json()) as { paths: Record<string, never> }) : { paths: {} };
+      return routesFrom(availableEndpoints, document.paths);
+    } catch (error) {
+      console.warn(`API coverage: could not read the routes from ${baseURL}: ${(error as Error).message}`);
+      return [];
+    }
+  }
+}
+
+export default ApiCoverageReporter;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { BookSchema } from './book.schema';
+
+/**
+ * 200 from POST /__admin/reset and /__admin/seed: the catalog the store now holds.
+ */
+export const StoreStateResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  count: z.number().int().min(0),
+  data: z.array(BookSchema)
+});
+
+/**
+ * 201 from POST /__admin/snapshot and 200 from POST /__admin/restore/:name.
+ */
+export const SnapshotResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  name: z.string().min(1)
+});
+
+export type StoreStateResponse = z.infer<typeof StoreStateResponseSchema>;
+export type SnapshotResponse = z.infer<typeof SnapshotResponseSchema>;
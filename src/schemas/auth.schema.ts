@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { ErrorResponseSchema } from './error.schema';
+
+/**
+ * Request body accepted by POST /auth/login.
+ */
+export const LoginRequestSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1)
+});
+
+export const LoginResponseSchema = z.object({
+  message: z.literal('Login successful'),
+  token: z.string().min(1),
+  expiresIn: z.string(),
+  user: z.object({
+    username: z.string().min(1),
+    role: z.string().min(1)
+  })
+});
+
+/**
+ * 400 (missing credentials) or 401 (wrong credentials) from POST /auth/login.
+ */
+export const LoginErrorSchema = ErrorResponseSchema.extend({
+  error: z.enum(['Bad Request', 'Unauthorized'])
+});
+
+/**
+ * Claims signed into the JWT by POST /auth/login (`iat`/`exp` in epoch seconds).
+ */
+export const JwtPayloadSchema = z.object({
+  username: z.string().min(1),
+  role: z.string().min(1),
+  iat: z.number().int(),
+  exp: z.number().int()
+});
+
+export type LoginResponse = z.infer<typeof LoginResponseSchema>;
+export type LoginError = z.infer<typeof LoginErrorSchema>;
+export type JwtPayload = z.infer<typeof JwtPayloadSchema>;
@@ -1,31 +1,94 @@
 import { z } from 'zod';
 
-const isbnRegex = /^[0-9\s-]{10,17}$/;
+// Mirrors `isValidISBN` in the mock: 10 or 13 digits once hyphens/spaces are stripped
+const isbnRegex = /^(?:\d{10}|\d{13})$/;
+
+// Mirrors the mock's publishedYear rule: 1000 up to next year
+export const MAX_PUBLISHED_YEAR = new Date().getFullYear() + 1;
+
+export const IsbnSchema = z
+  .string()
+  .refine(v => isbnRegex.test(v.replace(/[-\s]/g, '')), {
+    message: 'ISBN should be 10 or 13 digits (hyphens and spaces allowed)'
+  });
+
+export const PublishedYearSchema = z.number().int().min(1000).max(MAX_PUBLISHED_YEAR);
 
 export const BookSchema = z.object({
   id: z.union([z.string(), z.number()]).transform(v => v.toString()),
   title: z.string().min(1),
   author: z.string().min(1),
-  isbn: z.string().regex(isbnRegex),
-  publishedYear: z.number().int(),
+  // Optional since PATCH can remove them with null
+  isbn: IsbnSchema.optional(),
+  publishedYear: PublishedYearSchema.optional(),
   available: z.boolean()
 });
 
+/**
+ * Request body accepted by POST /books.
+ */
+export const CreateBookPayloadSchema = z.object({
+  title: z.string().min(1),
+  author: z.string().min(1),
+  isbn: IsbnSchema,
+  publishedYear: PublishedYearSchema.optional(),
+  available: z.boolean().optional()
+});
+
+/**
+ * Request body accepted by PUT /books/:id (every field optional).
+ */
+export const UpdateBookPayloadSchema = CreateBookPayloadSchema.partial();
+
+/**
+ * JSON Merge Patch (RFC 7396) accepted by PATCH /books/:id.
+ * Unknown fields are rejected; null removes isbn or publishedYear.
+ */
+export const BookMergePatchSchema = z.strictObject({
+  ...UpdateBookPayloadSchema.shape,
+  isbn: IsbnSchema.nullable().optional(),
+  publishedYear: PublishedYearSchema.nullable().optional()
+});
+
 export const BookResponseSchema = z.object({
   success: z.boolean(),
   data: BookSchema,
   message: z.string()
 });
 
+// GET /books/:id returns the envelope without a message
+export const GetBookResponseSchema = BookResponseSchema.omit({ message: true });
+
 export const PartialBookSchema = BookSchema.partial();
 
 export const PartialBookResponseSchema = BookResponseSchema.partial();
 
+/**
+ * Pagination metadata of GET /books; `limit` is null when none was requested.
+ */
+export const PaginationSchema = z.object({
+  total: z.number().int().min(0),
+  offset: z.number().int().min(0),
+  limit: z.number().int().min(1).nullable(),
+  hasMore: z.boolean()
+});
+
 export const BookListResponseSchema = z.object({
   success: z.boolean(),
   count: z.number(),
-  data: z.array(BookSchema)
+  data: z.array(BookSchema),
+  pagination: PaginationSchema
+});
+
+export const DeleteBookResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  deletedId: z.string()
 });
 
 export type Book = z.infer<typeof BookSchema>;
 export type BookResponse = z.infer<typeof BookResponseSchema>;
+export type GetBookResponse = z.infer<typeof GetBookResponseSchema>;
+export type Pagination = z.infer<typeof PaginationSchema>;
+export type BookListResponse = z.infer<typeof BookListResponseSchema>;
+export type DeleteBookResponse = z.infer<typeof DeleteBookResponseSchema>;
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { BookSchema, CreateBookPayloadSchema, UpdateBookPayloadSchema } from './book.schema';
+import { ErrorResponseSchema } from './error.schema';
+
+const BookIdSchema = z.union([z.string(), z.number()]);
+
+/**
+ * One item of a POST /books/bulk request; `ifMatch` makes an update or
+ * delete conditional like the single-book routes.
+ */
+export const BulkOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('create'), data: CreateBookPayloadSchema }),
+  z.object({ op: z.literal('update'), id: BookIdSchema, data: UpdateBookPayloadSchema, ifMatch: z.string().optional() }),
+  z.object({ op: z.literal('delete'), id: BookIdSchema, ifMatch: z.string().optional() })
+]);
+
+/**
+ * Request body accepted by POST /books/bulk (at most 100 operations).
+ */
+export const BulkRequestSchema = z.object({
+  operations: z.array(BulkOperationSchema).min(1).max(100)
+});
+
+/**
+ * Outcome of one operation in POST /books/bulk. `status` is the code the
+ * single-book route would have returned; 424 marks an operation rolled back
+ * by a failed atomic batch.
+ */
+export const BulkItemResultSchema = z.object({
+  index: z.number().int().min(0),
+  op: z.enum(['create', 'update', 'delete']),
+  status: z.number().int(),
+  id: z.string().optional(),
+  data: BookSchema.optional(),
+  error: ErrorResponseSchema.optional()
+});
+
+/**
+ * Body of POST /books/bulk: 200 when every item succeeded, 207 for a partial
+ * success and 409 when an atomic batch was rolled back.
+ */
+export const BulkResultSchema = z.object({
+  success: z.boolean(),
+  atomic: z.boolean(),
+  summary: z.object({
+    total: z.number().int().min(1),
+    succeeded: z.number().int().min(0),
+    failed: z.number().int().min(0)
+  }),
+  results: z.array(BulkItemResultSchema).min(1)
+});
+
+export type BulkItemResult = z.infer<typeof BulkItemResultSchema>;
+export type BulkResult = z.infer<typeof BulkResultSchema>;
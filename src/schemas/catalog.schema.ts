@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { BookSchema } from './book.schema';
+import { BadRequestErrorSchema } from './error.schema';
+
+/**
+ * Body of GET /books/export?format=json: the whole catalog as a bare array.
+ */
+export const BookExportSchema = z.array(BookSchema);
+
+/**
+ * 201 from POST /books/import with the books created, in file order.
+ */
+export const ImportResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  count: z.number().int().min(1),
+  data: z.array(BookSchema)
+});
+
+/**
+ * 400 from POST /books/import when rows fail validation; nothing is imported.
+ * `row` is 1-based and does not count the CSV header.
+ */
+export const ImportRowsErrorSchema = BadRequestErrorSchema.extend({
+  errors: z.array(z.object({
+    row: z.number().int().min(1),
+    message: z.string().min(1)
+  })).min(1)
+});
+
+export type ImportResult = z.infer<typeof ImportResultSchema>;
+export type ImportRowsError = z.infer<typeof ImportRowsErrorSchema>;
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+/** Environments a run can target; each reads `config/<env>.env`. */
+export const TEST_ENVS = ['dev', 'ci', 'staging', 'local-mock'] as const;
+
+export const TestEnvSchema = z.enum(TEST_ENVS, {
+  error: `TEST_ENV must be one of ${TEST_ENVS.join(', ')}`,
+});
+
+const required = (name: string) => z.string({ error: `${name} is required` });
+
+const withDefault = (value: number) => z.coerce.number().int().min(0).default(value);
+
+/**
+ * Environment variables of a run (the process environment over the
+ * environment's file), as the typed configuration the framework reads.
+ * Issues are reported under the variable name, e.g. `AUTH_PASSWORD`; empty
+ * variables are dropped before parsing, so they count as unset.
+ */
+export const ConfigSchema = z
+  .object({
+    TEST_ENV: TestEnvSchema,
+    BASE_URL: z.url({
+      error: issue => (issue.input === undefined ? 'BASE_URL is required' : 'BASE_URL must be an absolute URL'),
+    }),
+
+    AUTH_USERNAME: required('AUTH_USERNAME').default('admin'),
+    AUTH_PASSWORD: required('AUTH_PASSWORD'),
+    AUTH_VIEWER_USERNAME: required('AUTH_VIEWER_USERNAME').default('viewer'),
+    AUTH_VIEWER_PASSWORD: required('AUTH_VIEWER_PASSWORD'),
+    AUTH_LIBRARIAN_USERNAME: required('AUTH_LIBRARIAN_USERNAME').default('librarian'),
+    AUTH_LIBRARIAN_PASSWORD: required('AUTH_LIBRARIAN_PASSWORD'),
+
+    TEST_TIMEOUT_MS: withDefault(30_000),
+    EXPECT_TIMEOUT_MS: withDefault(5_000),
+    REQUEST_TIMEOUT_MS: withDefault(30_000),
+    TOKEN_REFRESH_MARGIN_SECONDS: withDefault(60),
+
+    RETRY_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(3),
+    RETRY_BACKOFF: z.enum(['exponential', 'linear', 'fixed']).default('exponential'),
+    RETRY_BASE_DELAY_MS: withDefault(100),
+    RETRY_MAX_DELAY_MS: withDefault(2_000),
+
+    MOCK_SERVER: z.enum(['off', 'shared', 'per-worker']).default('off'),
+    TENANT_ISOLATION: z.enum(['test', 'worker', 'off']).default('test'),
+    SCHEMA_VALIDATION: z.enum(['strict', 'warn', 'off']).default('strict'),
+    HTTP_LOG: z.enum(['failed', 'all', 'off']).default('failed'),
+    HTTP_LOG_DIR: z.string().optional(),
+    CURL_REPRO_LIMIT: withDefault(10),
+  })
+  .transform(env => ({
+    testEnv: env.TEST_ENV,
+    baseURL: env.BASE_URL,
+    credentials: {
+      viewer: { username: env.AUTH_VIEWER_USERNAME, password: env.AUTH_VIEWER_PASSWORD },
+      librarian: { username: env.AUTH_LIBRARIAN_USERNAME, password: env.AUTH_LIBRARIAN_PASSWORD },
+      admin: { username: env.AUTH_USERNAME, password: env.AUTH_PASSWORD },
+    },
+    timeouts: {
+      /** Per test, including fixtures. */
+      testMs: env.TEST_TIMEOUT_MS,
+      /** Per polling assertion (`expect.poll`). */
+      expectMs: env.EXPECT_TIMEOUT_MS,
+      /** Per HTTP request sent by the clients. */
+      requestMs: env.REQUEST_TIMEOUT_MS,
+      /** The cached JWT is renewed once it is this close to expiry. */
+      tokenRefreshMarginSeconds: env.TOKEN_REFRESH_MARGIN_SECONDS,
+    },
+    /** Default client retry policy (see src/clients/retry.ts). */
+    retry: {
+      maxAttempts: env.RETRY_MAX_ATTEMPTS,
+      backoff: env.RETRY_BACKOFF,
+      baseDelayMs: env.RETRY_BASE_DELAY_MS,
+      maxDelayMs: env.RETRY_MAX_DELAY_MS,
+    },
+    features: {
+      /** Whether global setup starts the bundled mock (one for the run, or one per worker) instead of using BASE_URL. */
+      mockServer: env.MOCK_SERVER,
+      /** Whether each test (or each worker) sends its own X-Tenant-Id, so it gets a store of its own. */
+      tenantIsolation: env.TENANT_ISOLATION,
+      schemaValidation: env.SCHEMA_VALIDATION,
+      httpLog: env.HTTP_LOG,
+      /** When set, every exchange is also appended to `<dir>/worker-<n>.jsonl`. */
+      httpLogDir: env.HTTP_LOG_DIR,
+      /** Requests per failed test replayed as curl commands (0 disables). */
+      curlReproLimit: env.CURL_REPRO_LIMIT,
+    },
+  }));
+
+export type TestEnv = z.infer<typeof TestEnvSchema>;
+export type Config = z.output<typeof ConfigSchema>;
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+
+/**
+ * Base error envelope shared by every non-2xx response.
+ */
+export const ErrorResponseSchema = z.object({
+  error: z.string().min(1),
+  message: z.string()
+});
+
+export const BadRequestErrorSchema = ErrorResponseSchema.extend({
+  error: z.literal('Bad Request')
+});
+
+/**
+ * 400 from POST /books when title, author or isbn is missing.
+ */
+export const MissingFieldsErrorSchema = BadRequestErrorSchema.extend({
+  received: z.object({
+    title: z.boolean(),
+    author: z.boolean(),
+    isbn: z.boolean()
+  })
+});
+
+/**
+ * 400 from POST /books when the ISBN is malformed; carries a valid example.
+ */
+export const InvalidIsbnErrorSchema = BadRequestErrorSchema.extend({
+  example: z.string()
+});
+
+/**
+ * 401 from `middleware/auth.js` when no Bearer token is sent.
+ */
+export const MissingTokenErrorSchema = ErrorResponseSchema.extend({
+  error: z.literal('Access denied. No token provided.')
+});
+
+/**
+ * 401 from `middleware/auth.js` when the token fails verification.
+ */
+export const InvalidTokenErrorSchema = ErrorResponseSchema.extend({
+  error: z.literal('Invalid or expired token')
+});
+
+export const UnauthorizedErrorSchema = z.union([
+  MissingTokenErrorSchema,
+  InvalidTokenErrorSchema
+]);
+
+/**
+ * 403 from `authorizeRoles` when the token's role may not use the route.
+ */
+export const ForbiddenErrorSchema = ErrorResponseSchema.extend({
+  error: z.literal('Forbidden'),
+  requiredRoles: z.array(z.string()).min(1)
+});
+
+/**
+ * 404 for a resource that does not exist (e.g. unknown book id).
+ */
+export const NotFoundErrorSchema = ErrorResponseSchema.extend({
+  error: z.literal('Not Found')
+});
+
+/**
+ * 404 from the global handler for unknown routes or methods.
+ */
+export const RouteNotFoundErrorSchema = NotFoundErrorSchema.extend({
+  availableEndpoints: z.array(z.string()).min(1)
+});
+
+/**
+ * 412 from PUT/PATCH/DELETE /books/:id when If-Match does not list the current ETag.
+ */
+export const PreconditionFailedErrorSchema = ErrorResponseSchema.extend({
+  error: z.literal('Precondition Failed')
+});
+
+/**
+ * 415 from PATCH /books/:id when the body is not (merge-patch+)JSON.
+ */
+export const UnsupportedMediaTypeErrorSchema = ErrorResponseSchema.extend({
+  error: z.literal('Unsupported Media Type')
+});
+
+export const InternalServerErrorSchema = ErrorResponseSchema.extend({
+  error: z.literal('Internal Server Error')
+});
+
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+export type MissingFieldsError = z.infer<typeof MissingFieldsErrorSchema>;
+export type InvalidIsbnError = z.infer<typeof InvalidIsbnErrorSchema>;
+export type UnauthorizedError = z.infer<typeof UnauthorizedErrorSchema>;
+export type ForbiddenError = z.infer<typeof ForbiddenErrorSchema>;
+export type RouteNotFoundError = z.infer<typeof RouteNotFoundErrorSchema>;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { ErrorResponseSchema } from './error.schema';
+
+export const FaultRuleSchema = z.object({
+  method: z.enum(['*', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE']),
+  path: z.string().min(1),
+  latencyMs: z.union([
+    z.number().int().min(0),
+    z.object({ min: z.number().int().min(0), max: z.number().int().min(0) })
+  ]).optional(),
+  status: z.number().int().min(400).max(599).optional(),
+  retryAfter: z.number().int().min(0).optional(),
+  probability: z.number().min(0).max(1).optional(),
+  drop: z.boolean().optional(),
+  malformedJson: z.boolean().optional(),
+  times: z.number().int().min(0).optional()
+});
+
+/**
+ * 200 from GET, PUT and DELETE /__admin/faults: the rules now active.
+ * `times` counts down as a rule fires.
+ */
+export const FaultsResponseSchema = z.object({
+  success: z.literal(true),
+  rules: z.array(FaultRuleSchema)
+});
+
+/**
+ * Error answered by a rule with `status`, whatever the route.
+ */
+export const InjectedFaultErrorSchema = ErrorResponseSchema.extend({
+  error: z.literal('Injected Fault')
+});
+
+export type FaultsResponse = z.infer<typeof FaultsResponseSchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+/**
+ * 200 from GET /health; `uptime` is in seconds.
+ */
+export const HealthResponseSchema = z.object({
+  status: z.literal('healthy'),
+  timestamp: z.string(),
+  uptime: z.number().min(0),
+  environment: z.string()
+});
+
+export type HealthResponse = z.infer<typeof HealthResponseSchema>;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { BookSchema } from './book.schema';
+
+/**
+ * One ranked match from GET /books/search; a higher `score` is more relevant.
+ */
+export const SearchHitSchema = z.object({
+  score: z.number().positive(),
+  matchedFields: z.array(z.enum(['title', 'author', 'isbn'])).min(1),
+  book: BookSchema
+});
+
+/**
+ * 200 from GET /books/search: hits ordered by descending score.
+ */
+export const SearchResultSchema = z.object({
+  success: z.boolean(),
+  query: z.string().min(1),
+  count: z.number().int().min(0),
+  data: z.array(SearchHitSchema)
+});
+
+export type SearchHit = z.infer<typeof SearchHitSchema>;
+export type SearchResult = z.infer<typeof SearchResultSchema>;
@@ -0,0 +1,254 @@
+import type { APIRequestContext } from "@playwright/test";
+import { AdminClient } from "../clients/admin.client";
+import type { CreateBookPayload } from "../types/book.dto";
+import type { FaultConfig, FaultRule } from "../types/fault.dto";
+import type { ApiErrorBody, ApiResult } from "../types/api-result";
+import type { Book } from "../schemas/book.schema";
+import {
+  SnapshotResponseSchema,
+  StoreStateResponseSchema,
+  type SnapshotResponse,
+  type StoreStateResponse,
+} from "../schemas/admin.schema";
+import { FaultsResponseSchema, type FaultsResponse } from "../schemas/fault.schema";
+import {
+  BadRequestErrorSchema,
+  ForbiddenErrorSchema,
+  NotFoundErrorSchema,
+  UnauthorizedErrorSchema,
+} from "../schemas/error.schema";
+import { toResult, type ResponseSchemas } from "../utils/response-validation";
+import { assertOk } from "../utils/result-helpers";
+
+/**
+ * Admin service for the mock's /__admin endpoints, used to put the store into
+ * a known state and to inject faults. Every call requires an admin token.
+ */
+
+/** Result of reset/seed: the success branch exposes the `books` now in the store. */
+export type StoreResult = ApiResult<
+  StoreStateResponse,
+  ApiErrorBody,
+  { books: Book[] }
+>;
+
+/** Result of saving or restoring a snapshot. */
+export type SnapshotResult = ApiResult<SnapshotResponse>;
+
+/** Result of the fault endpoints: the success branch exposes the active `rules`. */
+export type FaultsResult = ApiResult<
+  FaultsResponse,
+  ApiErrorBody,
+  { rules: FaultsResponse["rules"] }
+>;
+
+const ADMIN_AUTH_SCHEMAS = {
+  401: UnauthorizedErrorSchema,
+  403: ForbiddenErrorSchema,
+} satisfies ResponseSchemas;
+
+/**
+ * Expected response schemas per endpoint, keyed by status.
+ */
+const RESPONSE_SCHEMAS = {
+  resetStore: {
+    200: StoreStateResponseSchema,
+    ...ADMIN_AUTH_SCHEMAS,
+  },
+  seedStore: {
+    200: StoreStateResponseSchema,
+    400: BadRequestErrorSchema,
+    ...ADMIN_AUTH_SCHEMAS,
+  },
+  saveSnapshot: {
+    201: SnapshotResponseSchema,
+    400: BadRequestErrorSchema,
+    ...ADMIN_AUTH_SCHEMAS,
+  },
+  restoreSnapshot: {
+    200: SnapshotResponseSchema,
+    404: NotFoundErrorSchema,
+    ...ADMIN_AUTH_SCHEMAS,
+  },
+  getFaults: {
+    200: FaultsResponseSchema,
+    ...ADMIN_AUTH_SCHEMAS,
+  },
+  setFaults: {
+    200: FaultsResponseSchema,
+    400: BadRequestErrorSchema,
+    ...ADMIN_AUTH_SCHEMAS,
+  },
+  clearFaults: {
+    200: FaultsResponseSchema,
+    ...ADMIN_AUTH_SCHEMAS,
+  },
+} satisfies Record<string, ResponseSchemas>;
+
+function withBooks(result: ApiResult<StoreStateResponse>): StoreResult {
+  return result.ok ? { ...result, books: result.body.data } : result;
+}
+
+function withRules(result: ApiResult<FaultsResponse>): FaultsResult {
+  return result.ok ? { ...result, rules: result.body.rules } : result;
+}
+
+/**
+ * Restores the seed catalog (the seven default books, ids 1-7).
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {string} [token] - Admin JWT token
+ * @returns {Promise<StoreResult>} Result object, discriminated on `ok`
+ * @returns {Book[]} [.books] - The seed catalog if successful
+ */
+export async function resetStore(
+  request: APIRequestContext,
+  token?: string
+): Promise<StoreResult> {
+  const res = await AdminClient.resetStore(request, token);
+  return withBooks(
+    await toResult<StoreStateResponse>(res, RESPONSE_SCHEMAS.resetStore, "resetStore")
+  );
+}
+
+/**
+ * Replaces the whole catalog with `books`; ids restart at 1 in array order.
+ * Every book is validated like POST /books and nothing changes when one fails.
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {CreateBookPayload[]} books - Books the store should hold
+ * @param {string} [token] - Admin JWT token
+ * @returns {Promise<StoreResult>} Result object, discriminated on `ok`
+ * @returns {Book[]} [.books] - The seeded books, with their ids, if successful
+ */
+export async function seedStore(
+  request: APIRequestContext,
+  books: CreateBookPayload[],
+  token?: string
+): Promise<StoreResult> {
+  const res = await AdminClient.seedStore(request, books, token);
+  return withBooks(
+    await toResult<StoreStateResponse>(res, RESPONSE_SCHEMAS.seedStore, "seedStore")
+  );
+}
+
+/**
+ * Saves the current store state under `name`, replacing any snapshot with
+ * that name. Snapshots live in the server's memory only.
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {string} name - Snapshot name (letters, digits, `_`, `-`, `.`)
+ * @param {string} [token] - Admin JWT token
+ * @returns {Promise<SnapshotResult>} Result object, discriminated on `ok`
+ */
+export async function saveSnapshot(
+  request: APIRequestContext,
+  name: string,
+  token?: string
+): Promise<SnapshotResult> {
+  const res = await AdminClient.saveSnapshot(request, name, token);
+  return toResult<SnapshotResponse>(res, RESPONSE_SCHEMAS.saveSnapshot, "saveSnapshot");
+}
+
+/**
+ * Puts the store back into the state saved under `name` (404 when unknown).
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {string} name - Name the snapshot was saved under
+ * @param {string} [token] - Admin JWT token
+ * @returns {Promise<SnapshotResult>} Result object, discriminated on `ok`
+ */
+export async function restoreSnapshot(
+  request: APIRequestContext,
+  name: string,
+  token?: string
+): Promise<SnapshotResult> {
+  const res = await AdminClient.restoreSnapshot(request, name, token);
+  return toResult<SnapshotResponse>(res, RESPONSE_SCHEMAS.restoreSnapshot, "restoreSnapshot");
+}
+
+/**
+ * Lists the active fault rules; `times` shows how often each may still fire.
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {string} [token] - Admin JWT token
+ * @returns {Promise<FaultsResult>} Result object, discriminated on `ok`
+ */
+export async function getFaults(
+  request: APIRequestContext,
+  token?: string
+): Promise<FaultsResult> {
+  const res = await AdminClient.getFaults(request, token);
+  return withRules(await toResult<FaultsResponse>(res, RESPONSE_SCHEMAS.getFaults, "getFaults"));
+}
+
+/**
+ * Replaces the fault rules. /__admin and /health are never faulted, so the
+ * rules can always be cleared again.
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {FaultRule[]} rules - Rules to apply, first match wins
+ * @param {string} [token] - Admin JWT token
+ * @returns {Promise<FaultsResult>} Result object, discriminated on `ok`
+ */
+export async function setFaults(
+  request: APIRequestContext,
+  rules: FaultRule[],
+  token?: string
+): Promise<FaultsResult> {
+  const res = await AdminClient.setFaults(request, rules, token);
+  return withRules(await toResult<FaultsResponse>(res, RESPONSE_SCHEMAS.setFaults, "setFaults"));
+}
+
+/**
+ * Removes every fault rule.
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {string} [token] - Admin JWT token
+ * @returns {Promise<FaultsResult>} Result object, discriminated on `ok`
+ */
+export async function clearFaults(
+  request: APIRequestContext,
+  token?: string
+): Promise<FaultsResult> {
+  const res = await AdminClient.clearFaults(request, token);
+  return withRules(await toResult<FaultsResponse>(res, RESPONSE_SCHEMAS.clearFaults, "clearFaults"));
+}
+
+/**
+ * Applies `config.rules` for the duration of `fn` and clears them afterwards,
+ * even when `fn` throws. Throws when the rules are rejected.
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {FaultConfig} config - Faults to apply
+ * @param {string} token - Admin JWT token
+ * @param {Function} fn - Code to run against the faulty API
+ * @returns {Promise<T>} What `fn` returned
+ *
+ * @example
+ * await withFaults(request, { rules: [{ path: '/books/:id', status: 503, times: 2 }] }, token, async () => {
+ *   const result = await getBookById(request, '1');
+ * });
+ */
+export async function withFaults<T>(
+  request: APIRequestContext,
+  config: FaultConfig,
+  token: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  assertOk(await setFaults(request, config.rules, token), "setFaults");
+
+  try {
+    return await fn();
+  } finally {
+    await clearFaults(request, token);
+  }
+}
@@ -1,40 +1,74 @@
 import type { APIRequestContext } from '@playwright/test';
 import { AuthClient, type LoginPayload } from '../clients/auth.client';
+import { attemptsOf } from '../clients/retry';
+import {
+  LoginErrorSchema,
+  LoginResponseSchema,
+  type LoginResponse,
+} from '../schemas/auth.schema';
+import { validateResponse, type ResponseSchemas } from '../utils/response-validation';
+import type { ApiErrorBody, ApiResult } from '../types/api-result';
 
 /**
  * Authentication service that handles login operations.
  * Processes user credentials and manages JWT token extraction and handling.
  */
 
+/** Result of a login: the success branch exposes the extracted `token`. */
+export type AuthResult = ApiResult<LoginResponse, ApiErrorBody, { token: string }>;
+
+/**
+ * Expected response schemas per endpoint, keyed by status.
+ * Also the source of the responses in the OpenAPI document (src/openapi).
+ */
+export const RESPONSE_SCHEMAS = {
+  authenticate: { 200: LoginResponseSchema, 400: LoginErrorSchema, 401: LoginErrorSchema },
+} satisfies Record<string, ResponseSchemas>;
+
 /**
  * Authenticates a user with provided credentials.
  * Calls the AuthClient to login and extracts the JWT token from the response.
- * Validates that the response contains a valid token.
+ * Validates the response against the login schemas (see SCHEMA_VALIDATION).
  *
  * @async
  * @param {APIRequestContext} request - Playwright API request context
  * @param {LoginPayload} payload - Login credentials containing username and password
- * @returns {Promise<Object>} Authentication result object
+ * @returns {Promise<AuthResult>} Authentication result object, discriminated on `ok`
  * @returns {number} .status - HTTP status code from the response
  * @returns {boolean} .ok - Whether the response indicates success (2xx status)
- * @returns {Object} .body - The complete response body
- * @returns {string} .token - The JWT token for authenticated requests
+ * @returns {LoginResponse | ApiErrorBody} .body - The complete response body
+ * @returns {string} [.token] - The JWT token for authenticated requests
  * @throws {Error} If the response body is invalid or not valid JSON
  */
-export async function authenticate(request: APIRequestContext, payload: LoginPayload) {
+export async function authenticate(
+  request: APIRequestContext,
+  payload: LoginPayload
+): Promise<AuthResult> {
   const res = await AuthClient.login(request, payload);
-  const body = await res.json().catch(() => null);
+  const raw = await res.json().catch(() => null);
 
-  if (!body || typeof body !== 'object') {
+  if (!raw || typeof raw !== 'object') {
     throw new Error(`Login failed: response body is not valid JSON`);
   }
-  
-  const token = body.token;
+
+  const body = await validateResponse(
+    RESPONSE_SCHEMAS.authenticate,
+    res.status(),
+    raw,
+    'authenticate'
+  );
+
+  if (!res.ok()) {
+    return { ok: false, status: res.status(), body: body as ApiErrorBody, attempts: attemptsOf(res) };
+  }
+
+  const loginBody = body as LoginResponse;
 
   return {
+    ok: true,
     status: res.status(),
-    ok: res.ok(),
-    body,
-    token
+    body: loginBody,
+    attempts: attemptsOf(res),
+    token: loginBody.token
   };
 }
@@ -1,16 +1,210 @@
-import type { APIRequestContext } from "@playwright/test";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { z } from "zod";
 import { BooksClient } from "../clients/books.client";
+import type { IdempotencyOptions, PreconditionOptions } from "../clients/http.helpers";
+import { attemptsOf } from "../clients/retry";
 import type {
+  BookListQuery,
+  BookMergePatch,
+  BulkOperation,
   CreateBookPayload,
-  CreateBookResponse,
-  Book,
 } from "../types/book.dto";
+import type { ApiErrorBody, ApiResult } from "../types/api-result";
+import {
+  BookListResponseSchema,
+  BookResponseSchema,
+  DeleteBookResponseSchema,
+  GetBookResponseSchema,
+  type Book,
+  type BookListResponse,
+  type BookResponse,
+  type DeleteBookResponse,
+  type GetBookResponse,
+} from "../schemas/book.schema";
+import {
+  BulkResultSchema,
+  type BulkItemResult,
+  type BulkResult,
+} from "../schemas/bulk.schema";
+import {
+  BookExportSchema,
+  ImportResultSchema,
+  ImportRowsErrorSchema,
+  type ImportResult,
+} from "../schemas/catalog.schema";
+import {
+  SearchResultSchema,
+  type SearchHit,
+  type SearchResult,
+} from "../schemas/search.schema";
+import {
+  BadRequestErrorSchema,
+  ForbiddenErrorSchema,
+  InvalidIsbnErrorSchema,
+  MissingFieldsErrorSchema,
+  NotFoundErrorSchema,
+  PreconditionFailedErrorSchema,
+  UnauthorizedErrorSchema,
+  UnsupportedMediaTypeErrorSchema,
+} from "../schemas/error.schema";
+import {
+  toResult,
+  validateResponse,
+  type ResponseSchemas,
+} from "../utils/response-validation";
+import { booksFromCsv } from "../utils/csv";
 
 /**
  * Books service module providing high-level business logic for book operations.
  * Handles API communication and response processing for CRUD operations on books.
  */
 
+/**
+ * Result of create/get/update/patch: the success branch exposes the parsed
+ * `book` and its `etag`, to pass back as `ifMatch` on a later write.
+ */
+export type BookResult<TBody extends { data: Book } = BookResponse> = ApiResult<
+  TBody,
+  ApiErrorBody,
+  { book: Book; etag: string | undefined }
+>;
+
+/** Result of delete: the success branch exposes the `deletedId`. */
+export type DeleteBookResult = ApiResult<
+  DeleteBookResponse,
+  ApiErrorBody,
+  { deletedId: string }
+>;
+
+/** Result of list: the success branch exposes the page of `books`. */
+export type BookListResult = ApiResult<
+  BookListResponse,
+  ApiErrorBody,
+  { books: Book[] }
+>;
+
+/** Result of search: the success branch exposes the ranked `hits`. */
+export type SearchBooksResult = ApiResult<
+  SearchResult,
+  ApiErrorBody,
+  { hits: SearchHit[] }
+>;
+
+/**
+ * Result of a bulk batch: the success branch exposes the per-item `results`.
+ * A rolled-back atomic batch (409) is a failure whose body is still a `BulkResult`.
+ */
+export type BulkBooksResult = ApiResult<
+  BulkResult,
+  BulkResult | ApiErrorBody,
+  { results: BulkItemResult[] }
+>;
+
+/**
+ * Result of an export: `body` is the file as received (a JSON array or CSV
+ * text), `books` the parsed catalog.
+ */
+export type ExportBooksResult<TBody> = ApiResult<
+  TBody,
+  ApiErrorBody,
+  { books: Book[] }
+>;
+
+/** Result of an import: the success branch exposes the created `books`. */
+export type ImportBooksResult = ApiResult<
+  ImportResult,
+  ApiErrorBody,
+  { books: Book[] }
+>;
+
+/** Any 400 envelope; the most specific shapes are tried first. */
+const AnyBadRequestErrorSchema = z.union([
+  MissingFieldsErrorSchema,
+  InvalidIsbnErrorSchema,
+  BadRequestErrorSchema,
+]);
+
+/**
+ * Expected response schemas per endpoint, keyed by status.
+ * Used by `toResult` to validate every response according to SCHEMA_VALIDATION,
+ * and the source of the responses in the OpenAPI document (src/openapi).
+ */
+export const RESPONSE_SCHEMAS = {
+  createBook: {
+    201: BookResponseSchema,
+    400: AnyBadRequestErrorSchema,
+    401: UnauthorizedErrorSchema,
+    403: ForbiddenErrorSchema,
+  },
+  bulkBooks: {
+    200: BulkResultSchema,
+    207: BulkResultSchema,
+    400: BadRequestErrorSchema,
+    401: UnauthorizedErrorSchema,
+    403: ForbiddenErrorSchema,
+    409: BulkResultSchema,
+  },
+  exportBooks: {
+    200: BookExportSchema,
+    400: BadRequestErrorSchema,
+  },
+  importBooks: {
+    201: ImportResultSchema,
+    400: z.union([ImportRowsErrorSchema, BadRequestErrorSchema]),
+    401: UnauthorizedErrorSchema,
+    403: ForbiddenErrorSchema,
+    415: UnsupportedMediaTypeErrorSchema,
+  },
+  listBooks: {
+    200: BookListResponseSchema,
+    400: BadRequestErrorSchema,
+  },
+  searchBooks: {
+    200: SearchResultSchema,
+    400: BadRequestErrorSchema,
+  },
+  getBookById: {
+    200: GetBookResponseSchema,
+    404: NotFoundErrorSchema,
+  },
+  updateBook: {
+    200: BookResponseSchema,
+    400: AnyBadRequestErrorSchema,
+    401: UnauthorizedErrorSchema,
+    403: ForbiddenErrorSchema,
+    404: NotFoundErrorSchema,
+    412: PreconditionFailedErrorSchema,
+  },
+  deleteBook: {
+    200: DeleteBookResponseSchema,
+    401: UnauthorizedErrorSchema,
+    403: ForbiddenErrorSchema,
+    404: NotFoundErrorSchema,
+    412: PreconditionFailedErrorSchema,
+  },
+  patchBook: {
+    200: BookResponseSchema,
+    400: AnyBadRequestErrorSchema,
+    401: UnauthorizedErrorSchema,
+    403: ForbiddenErrorSchema,
+    404: NotFoundErrorSchema,
+    412: PreconditionFailedErrorSchema,
+    415: UnsupportedMediaTypeErrorSchema,
+  },
+} satisfies Record<string, ResponseSchemas>;
+
+/**
+ * Adds the `book` and `etag` shortcuts to a successful book envelope result.
+ */
+function withBook<TBody extends { data: Book }>(
+  result: ApiResult<TBody>,
+  res: APIResponse
+): BookResult<TBody> {
+  return result.ok
+    ? { ...result, book: result.body.data, etag: res.headers()["etag"] }
+    : result;
+}
+
 /**
  * Creates a new book in the library.
  * Validates the response and extracts book data from the response payload.
@@ -19,34 +213,232 @@ import type {
  * @param {APIRequestContext} request - Playwright API request context
  * @param {CreateBookPayload | Partial<CreateBookPayload>} payload - Book data to create
  * @param {string} [token] - Optional JWT token for authorization
- * @returns {Promise<Object>} Result object
+ * @param {IdempotencyOptions} [options] - `idempotencyKey` lets a 429/503 be retried
+ * @returns {Promise<BookResult>} Result object, discriminated on `ok`
  * @returns {number} .status - HTTP status code
  * @returns {boolean} .ok - Whether the request was successful
- * @returns {Object} .body - Response body
+ * @returns {BookResponse | ApiErrorBody} .body - Response body
  * @returns {Book} [.book] - The created book object if successful
+ * @returns {string} [.etag] - ETag of the created book
  */
 export async function createBook(
   request: APIRequestContext,
   payload: CreateBookPayload | Partial<CreateBookPayload>,
-  token?: string
-): Promise<{
-  status: number;
-  ok: boolean;
-  body: CreateBookResponse | any;
-  book?: Book;
-}> {
-  const res = await BooksClient.createBook(request, payload, token);
+  token?: string,
+  options?: IdempotencyOptions
+): Promise<BookResult> {
+  const res = await BooksClient.createBook(request, payload, token, options);
+
+  return withBook(
+    await toResult<BookResponse>(res, RESPONSE_SCHEMAS.createBook, "createBook"),
+    res
+  );
+}
+
+/**
+ * Applies create/update/delete operations in one request.
+ * Without `atomic` each operation succeeds or fails on its own (207 when some
+ * fail); with `atomic: true` any failure rolls the whole batch back (409).
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {BulkOperation[]} operations - Operations, applied in order
+ * @param {string} [token] - Optional JWT token for authorization
+ * @param {Object} [options] - `atomic: true` for all-or-nothing; `idempotencyKey` lets a 429/503 be retried
+ * @returns {Promise<BulkBooksResult>} Result object, discriminated on `ok`
+ * @returns {number} .status - HTTP status code
+ * @returns {boolean} .ok - Whether every operation was applied (or some, without `atomic`)
+ * @returns {BulkResult | ApiErrorBody} .body - Response body
+ * @returns {BulkItemResult[]} [.results] - Per-operation results if successful
+ *
+ * @example
+ * const result = await bulkBooks(request, [
+ *   { op: 'create', data: aBook().build() },
+ *   { op: 'delete', id: '3' },
+ * ], token, { atomic: true });
+ */
+export async function bulkBooks(
+  request: APIRequestContext,
+  operations: BulkOperation[],
+  token?: string,
+  options: { atomic?: boolean } & IdempotencyOptions = {}
+): Promise<BulkBooksResult> {
+  const res = await BooksClient.bulkBooks(request, operations, token, options);
+  const result = await toResult<BulkResult, BulkResult | ApiErrorBody>(
+    res,
+    RESPONSE_SCHEMAS.bulkBooks,
+    "bulkBooks"
+  );
+
+  return result.ok ? { ...result, results: result.body.results } : result;
+}
 
+/**
+ * Downloads the whole catalog as JSON.
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @returns {Promise<ExportBooksResult<Book[]>>} Result object, discriminated on `ok`
+ * @returns {Book[]} [.books] - Every book in the catalog if successful
+ */
+export async function exportBooks(
+  request: APIRequestContext
+): Promise<ExportBooksResult<Book[]>> {
+  const res = await BooksClient.exportBooks(request, "json");
+  const result = await toResult<Book[]>(
+    res,
+    RESPONSE_SCHEMAS.exportBooks,
+    "exportBooks"
+  );
+
+  return result.ok ? { ...result, books: result.body } : result;
+}
+
+/**
+ * Downloads the whole catalog as CSV and parses it with `booksFromCsv`.
+ * A CSV row that is not a valid book throws, whatever SCHEMA_VALIDATION is.
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @returns {Promise<ExportBooksResult<string>>} Result object, discriminated on `ok`
+ * @returns {string} .body - The CSV text on success
+ * @returns {Book[]} [.books] - Every book in the catalog if successful
+ */
+export async function exportBooksCsv(
+  request: APIRequestContext
+): Promise<ExportBooksResult<string>> {
+  const res = await BooksClient.exportBooks(request, "csv");
   const status = res.status();
-  const ok = res.ok();
-  const body = await res.json().catch(() => null);
-
-  return {
-    status,
-    ok,
-    body,
-    book: body && body.data ? body.data : undefined,
-  };
+
+  if (!res.ok()) {
+    const raw = await res.json().catch(() => null);
+    const body = await validateResponse(
+      RESPONSE_SCHEMAS.exportBooks,
+      status,
+      raw,
+      "exportBooksCsv"
+    );
+    return { ok: false, status, body: body as ApiErrorBody, attempts: attemptsOf(res) };
+  }
+
+  const body = await res.text();
+  return { ok: true, status, body, books: booksFromCsv(body), attempts: attemptsOf(res) };
+}
+
+/**
+ * Imports books from CSV text or a JSON array of payloads.
+ * All or nothing: when any row is invalid the 400 body lists every row error
+ * in `errors` and no book is created.
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {string | Partial<CreateBookPayload>[]} catalog - CSV text (header row first) or book payloads
+ * @param {string} [token] - Optional JWT token for authorization
+ * @returns {Promise<ImportBooksResult>} Result object, discriminated on `ok`
+ * @returns {number} .status - HTTP status code
+ * @returns {boolean} .ok - Whether the import succeeded
+ * @returns {ImportResult | ApiErrorBody} .body - Response body
+ * @returns {Book[]} [.books] - The created books, in file order, if successful
+ */
+export async function importBooks(
+  request: APIRequestContext,
+  catalog: string | Partial<CreateBookPayload>[],
+  token?: string
+): Promise<ImportBooksResult> {
+  const res = await BooksClient.importBooks(request, catalog, token);
+  const result = await toResult<ImportResult>(
+    res,
+    RESPONSE_SCHEMAS.importBooks,
+    "importBooks"
+  );
+
+  return result.ok ? { ...result, books: result.body.data } : result;
+}
+
+/**
+ * Lists books, optionally filtered, sorted and paginated.
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {BookListQuery} [query] - Filter, sort and pagination parameters
+ * @returns {Promise<BookListResult>} Result object, discriminated on `ok`
+ * @returns {number} .status - HTTP status code
+ * @returns {boolean} .ok - Whether the request was successful
+ * @returns {BookListResponse | ApiErrorBody} .body - Response body
+ * @returns {Book[]} [.books] - The books of the requested page if successful
+ */
+export async function listBooks(
+  request: APIRequestContext,
+  query: BookListQuery = {}
+): Promise<BookListResult> {
+  const res = await BooksClient.listBooks(request, query);
+  const result = await toResult<BookListResponse>(
+    res,
+    RESPONSE_SCHEMAS.listBooks,
+    "listBooks"
+  );
+
+  return result.ok ? { ...result, books: result.body.data } : result;
+}
+
+/**
+ * Walks every page of GET /books, yielding one book at a time.
+ * `offset` and `limit` in `query` are ignored; pages of `pageSize` are requested
+ * until the server reports no more results. Throws on a non-2xx page.
+ *
+ * @example
+ * for await (const book of iterateBooks(request, { author: 'Orwell' })) {
+ *   console.log(book.title);
+ * }
+ */
+export async function* iterateBooks(
+  request: APIRequestContext,
+  query: Omit<BookListQuery, "limit" | "offset"> = {},
+  pageSize = 20
+): AsyncGenerator<Book, void, undefined> {
+  let offset = 0;
+
+  while (true) {
+    const result = await listBooks(request, { ...query, limit: pageSize, offset });
+    if (!result.ok) {
+      throw new Error(
+        `listBooks failed at offset ${offset}: ${result.status} ${JSON.stringify(result.body)}`
+      );
+    }
+
+    yield* result.books;
+
+    if (!result.body.pagination.hasMore || result.books.length === 0) return;
+    offset += result.books.length;
+  }
+}
+
+/**
+ * Searches books by title, author and ISBN.
+ * Matching is case-insensitive per whitespace-separated term; hits are ranked
+ * by relevance score, highest first.
+ *
+ * @async
+ * @param {APIRequestContext} request - Playwright API request context
+ * @param {string} q - Search terms
+ * @returns {Promise<SearchBooksResult>} Result object, discriminated on `ok`
+ * @returns {number} .status - HTTP status code
+ * @returns {boolean} .ok - Whether the request was successful
+ * @returns {SearchResult | ApiErrorBody} .body - Response body
+ * @returns {SearchHit[]} [.hits] - Ranked matches if successful
+ */
+export async function searchBooks(
+  request: APIRequestContext,
+  q: string
+): Promise<SearchBooksResult> {
+  const res = await BooksClient.searchBooks(request, q);
+  const result = await toResult<SearchResult>(
+    res,
+    RESPONSE_SCHEMAS.searchBooks,
+    "searchBooks"
+  );
+
+  return result.ok ? { ...result, hits: result.body.data } : result;
 }
 
 /**
@@ -55,28 +447,23 @@ export async function createBook(
  * @async
  * @param {APIRequestContext} request - Playwright API request context
  * @param {string | number} id - The unique identifier of the book to retrieve
- * @returns {Promise<Object>} Result object
+ * @returns {Promise<BookResult<GetBookResponse>>} Result object, discriminated on `ok`
  * @returns {number} .status - HTTP status code
  * @returns {boolean} .ok - Whether the request was successful
- * @returns {Object} .body - Response body
+ * @returns {GetBookResponse | ApiErrorBody} .body - Response body
  * @returns {Book} [.book] - The book object if found
+ * @returns {string} [.etag] - ETag of the current version
  */
 export async function getBookById(
   request: APIRequestContext,
   id: string | number
-): Promise<{ status: number; ok: boolean; body: any; book?: Book }> {
+): Promise<BookResult<GetBookResponse>> {
   const res = await BooksClient.getBookById(request, id);
 
-  const status = res.status();
-  const ok = res.ok();
-  const body = await res.json().catch(() => null);
-
-  return {
-    status,
-    ok,
-    body,
-    book: body && body.data ? body.data : undefined,
-  };
+  return withBook(
+    await toResult<GetBookResponse>(res, RESPONSE_SCHEMAS.getBookById, "getBookById"),
+    res
+  );
 }
 
 /**
@@ -88,30 +475,27 @@ export async function getBookById(
  * @param {string | number} id - The unique identifier of the book to update
  * @param {Partial<CreateBookPayload>} payload - Partial book data to update
  * @param {string} [token] - Optional JWT token for authorization
- * @returns {Promise<Object>} Result object
+ * @param {PreconditionOptions} [options] - `ifMatch` makes the update conditional (412 when stale)
+ * @returns {Promise<BookResult<GetBookResponse>>} Result object, discriminated on `ok`
  * @returns {number} .status - HTTP status code
  * @returns {boolean} .ok - Whether the request was successful
- * @returns {Object} .body - Response body
+ * @returns {BookResponse | ApiErrorBody} .body - Response body
  * @returns {Book} [.book] - The updated book object if successful
+ * @returns {string} [.etag] - ETag of the new version
  */
 export async function updateBook(
   request: APIRequestContext,
   id: string | number,
   payload: Partial<CreateBookPayload>,
-  token?: string
-): Promise<{ status: number; ok: boolean; body: any; book?: Book }> {
-  const res = await BooksClient.updateBook(request, id, payload, token);
+  token?: string,
+  options?: PreconditionOptions
+): Promise<BookResult> {
+  const res = await BooksClient.updateBook(request, id, payload, token, options);
 
-  const status = res.status();
-  const ok = res.ok();
-  const body = await res.json().catch(() => null);
-
-  return {
-    status,
-    ok,
-    body,
-    book: body && body.data ? body.data : undefined,
-  };
+  return withBook(
+    await toResult<BookResponse>(res, RESPONSE_SCHEMAS.updateBook, "updateBook"),
+    res
+  );
 }
 
 /**
@@ -122,61 +506,62 @@ export async function updateBook(
  * @param {APIRequestContext} request - Playwright API request context
  * @param {string | number} id - The unique identifier of the book to delete
  * @param {string} [token] - Optional JWT token for authorization
- * @returns {Promise<Object>} Result object
+ * @param {PreconditionOptions} [options] - `ifMatch` makes the delete conditional (412 when stale)
+ * @returns {Promise<DeleteBookResult>} Result object, discriminated on `ok`
  * @returns {number} .status - HTTP status code
  * @returns {boolean} .ok - Whether the request was successful
- * @returns {Object} .body - Response body
- * @returns {string | number} [.deletedId] - The ID of the deleted book if successful
+ * @returns {DeleteBookResponse | ApiErrorBody} .body - Response body
+ * @returns {string} [.deletedId] - The ID of the deleted book if successful
  */
 export async function deleteBook(
   request: APIRequestContext,
   id: string | number,
-  token?: string
-): Promise<{
-  status: number;
-  ok: boolean;
-  body: any;
-  deletedId?: string | number;
-}> {
-  const res = await BooksClient.deleteBook(request, id, token);
+  token?: string,
+  options?: PreconditionOptions
+): Promise<DeleteBookResult> {
+  const res = await BooksClient.deleteBook(request, id, token, options);
+  const result = await toResult<DeleteBookResponse>(
+    res,
+    RESPONSE_SCHEMAS.deleteBook,
+    "deleteBook"
+  );
 
-  const status = res.status();
-  const ok = res.ok();
-  const body = await res.json().catch(() => null);
-
-  return {
-    status,
-    ok,
-    body,
-    deletedId: (body && (body.deletedId || body.data?.id)) ?? undefined,
-  };
+  return result.ok ? { ...result, deletedId: result.body.deletedId } : result;
 }
 /**
- * Partially updates a book resource using HTTP PATCH.
- * Accepts an optional payload and returns the raw response details.
+ * Partially updates a book with JSON Merge Patch semantics.
+ * Omitted fields are left unchanged; `null` removes `isbn` or `publishedYear`.
  *
  * @async
  * @param {APIRequestContext} request - Playwright API request context
  * @param {string | number} id - The unique identifier of the book to patch
- * @param {Partial<CreateBookPayload>} [payload] - Partial fields to update
+ * @param {BookMergePatch} [patch] - Fields to change
  * @param {string} [token] - Optional bearer token for authorization
- * @returns {Promise<Object>} Result object containing `status`, `ok`, and `body`
+ * @param {PreconditionOptions} [options] - `ifMatch` makes the patch conditional (412 when stale)
+ * @returns {Promise<BookResult>} Result object, discriminated on `ok`
+ * @returns {number} .status - HTTP status code
+ * @returns {boolean} .ok - Whether the request was successful
+ * @returns {BookResponse | ApiErrorBody} .body - Response body
+ * @returns {Book} [.book] - The patched book object if successful
+ * @returns {string} [.etag] - ETag of the new version
  *
  * @example
- * const result = await patchBook(request, 42, { title: 'Updated' }, token);
- * if (result.ok) console.log(result.body);
+ * const result = await patchBook(request, 42, { isbn: null }, token);
+ * if (result.ok) console.log(result.book.isbn); // undefined
  */
 export async function patchBook(
   request: APIRequestContext,
   id: string | number,
-  payload?: Partial<CreateBookPayload>,
-  token?: string
-): Promise<{ status: number; ok: boolean; body: any }> {
-  const res = await BooksClient.patchBook(request, id, payload, token);
-  const status = res.status();
-  const ok = res.ok();
-  const body = await res.json().catch(() => null);
-  return { status, ok, body };
+  patch?: BookMergePatch,
+  token?: string,
+  options?: PreconditionOptions
+): Promise<BookResult> {
+  const res = await BooksClient.patchBook(request, id, patch, token, options);
+
+  return withBook(
+    await toResult<BookResponse>(res, RESPONSE_SCHEMAS.patchBook, "patchBook"),
+    res
+  );
 }
 
 /**
@@ -189,20 +574,17 @@ export async function patchBook(
  * @param {"get"|"post"|"put"|"patch"|"delete"|"head"} method - HTTP method to use
  * @param {string} path - Request path relative to the configured base URL
  * @param {Object} [options] - Optional request options (data, token, headers)
- * @returns {Promise<Object>} Result object containing `status`, `ok`, and `body`
+ * @returns {Promise<ApiResult<TSuccess, TError>>} Result object containing `status`, `ok`, and `body`
  *
  * @example
- * const result = await rawRequest(request, 'get', '/books?limit=10');
+ * const result = await rawRequest<BookListResponse>(request, 'get', '/books?limit=10');
  */
-export async function rawRequest(
+export async function rawRequest<TSuccess = unknown, TError = ApiErrorBody>(
   request: APIRequestContext,
   method: "get" | "post" | "put" | "patch" | "delete" | "head",
   path: string,
   options?: { data?: any; token?: string; headers?: Record<string, string> }
-): Promise<{ status: number; ok: boolean; body: any }> {
+): Promise<ApiResult<TSuccess, TError>> {
   const res = await BooksClient.requestRaw(request, method, path, options);
-  const status = res.status();
-  const ok = res.ok();
-  const body = await res.json().catch(() => null);
-  return { status, ok, body };
+  return toResult<TSuccess, TError>(res);
 }
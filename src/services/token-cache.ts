@@ -0,0 +1,68 @@
+import type { APIRequestContext } from '@playwright/test';
+import type { LoginPayload } from '../clients/auth.client';
+import type { JwtPayload } from '../schemas/auth.schema';
+import { decodeJwt, secondsUntilExpiry } from '../utils/jwt';
+import { authenticate } from './auth.service';
+
+/**
+ * A JWT together with its decoded claims.
+ */
+export type CachedToken = {
+  token: string;
+  claims: JwtPayload;
+};
+
+/**
+ * Caches the JWT of one set of credentials.
+ * The token is reused until it is within `refreshMarginSeconds` of its `exp`
+ * claim, then a new login is made. Concurrent callers share a single login.
+ */
+export class TokenCache {
+  private current: CachedToken | undefined;
+  private pending: Promise<CachedToken> | undefined;
+  private loginCount = 0;
+
+  constructor(
+    private readonly request: APIRequestContext,
+    private readonly credentials: LoginPayload,
+    private readonly refreshMarginSeconds = 60
+  ) {}
+
+  /** Number of logins performed so far (for asserting on cache hits). */
+  get logins(): number {
+    return this.loginCount;
+  }
+
+  /**
+   * Returns the cached token, logging in first when there is none or it is
+   * about to expire.
+   */
+  async get(): Promise<CachedToken> {
+    if (this.current && secondsUntilExpiry(this.current.claims) > this.refreshMarginSeconds) {
+      return this.current;
+    }
+
+    this.pending ??= this.login().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  /** Drops the cached token so the next `get` logs in again. */
+  invalidate(): void {
+    this.current = undefined;
+  }
+
+  private async login(): Promise<CachedToken> {
+    this.loginCount++;
+    const result = await authenticate(this.request, this.credentials);
+    if (!result.ok) {
+      throw new Error(
+        `Authentication failed for "${this.credentials.username}": ${result.status} ${result.body.message}`
+      );
+    }
+
+    this.current = { token: result.token, claims: decodeJwt(result.token) };
+    return this.current;
+  }
+}
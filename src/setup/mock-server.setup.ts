@@ -0,0 +1,34 @@
+import type { FullConfig } from '@playwright/test';
+import { config, MOCK_BASE_URLS_ENV } from '../utils/config';
+import { startMockServer, type MockServer } from '../utils/mock-server';
+
+/**
+ * Global setup: with MOCK_SERVER=shared (or per-worker) starts the bundled mock
+ * on a free port (one per worker) and points the run at it through BASE_URL
+ * (MOCK_BASE_URLS), which the workers inherit. Returns the teardown that
+ * stops the servers; with MOCK_SERVER=off the run uses BASE_URL as configured.
+ */
+export default async function globalSetup(fullConfig: FullConfig): Promise<(() => Promise<void>) | void> {
+  const mode = config.features.mockServer;
+  if (mode === 'off') return;
+
+  const servers: MockServer[] = [];
+  const stop = async () => {
+    await Promise.all(servers.map(server => server.stop()));
+  };
+
+  const count = mode === 'per-worker' ? fullConfig.workers : 1;
+  try {
+    while (servers.length < count) servers.push(await startMockServer());
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  const baseURLs = servers.map(server => server.baseURL);
+  process.env.BASE_URL = baseURLs[0];
+  if (mode === 'per-worker') process.env[MOCK_BASE_URLS_ENV] = baseURLs.join(',');
+  console.log(`Mock server: ${baseURLs.join(', ')}`);
+
+  return stop;
+}
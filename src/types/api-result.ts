@@ -0,0 +1,67 @@
+/**
+ * Error envelope returned by the API for every non-2xx response.
+ * `error` and `message` are always present; the remaining fields only appear
+ * on specific endpoints (validation failures, unknown routes, catalog imports).
+ */
+export type ApiErrorBody = {
+  error: string;
+  message: string;
+  received?: { title: boolean; author: boolean; isbn: boolean };
+  example?: string;
+  availableEndpoints?: string[];
+  requiredRoles?: string[];
+  errors?: { row: number; message: string }[];
+};
+
+/**
+ * One HTTP attempt behind a result. A request that was retried has several;
+ * `status` is missing when the attempt failed without a response.
+ */
+export type RequestAttempt = {
+  /** 1-based attempt number. */
+  attempt: number;
+  status?: number;
+  /** Network error message when no response was received. */
+  error?: string;
+  durationMs: number;
+  /** Wait before the next attempt; missing on the last one. */
+  delayMs?: number;
+};
+
+/**
+ * Successful (2xx) branch of an `ApiResult`.
+ * `TExtra` carries values the service extracts from the body (e.g. `book`).
+ */
+export type ApiSuccess<TBody, TExtra extends object = {}> = {
+  ok: true;
+  status: number;
+  body: TBody;
+  /** Every attempt made, in order; the last one produced `status`. */
+  attempts: readonly RequestAttempt[];
+} & TExtra;
+
+/**
+ * Failed (non-2xx) branch of an `ApiResult`.
+ * Extracted values from the success branch are declared as `undefined` so they
+ * can be read on an un-narrowed result.
+ */
+export type ApiFailure<TError, TExtra extends object = {}> = {
+  ok: false;
+  status: number;
+  body: TError;
+  /** Every attempt made, in order; the last one produced `status`. */
+  attempts: readonly RequestAttempt[];
+} & { [K in keyof TExtra]?: undefined };
+
+/**
+ * Discriminated union returned by every service function.
+ * Narrow on `ok` (or use `assertOk` / `assertFailure`) before reading `body`.
+ *
+ * @example
+ * const result = await createBook(request, payload, token);
+ * if (result.ok) console.log(result.book.id);
+ * else console.log(result.body.error);
+ */
+export type ApiResult<TSuccess, TError = ApiErrorBody, TExtra extends object = {}> =
+  | ApiSuccess<TSuccess, TExtra>
+  | ApiFailure<TError, TExtra>;
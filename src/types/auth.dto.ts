@@ -0,0 +1,9 @@
+/**
+ * Roles known to the API, from least to most privileged.
+ * - viewer: read-only
+ * - librarian: may create and update books
+ * - admin: may also delete books
+ */
+export const ROLES = ['viewer', 'librarian', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
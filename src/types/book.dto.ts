@@ -6,6 +6,48 @@ export type CreateBookPayload = {
   available?: boolean;
 };
 
+/**
+ * JSON Merge Patch body for PATCH /books/:id.
+ * Omitted fields are left unchanged; `null` removes an optional field.
+ */
+export type BookMergePatch = {
+  title?: string;
+  author?: string;
+  isbn?: string | null;
+  publishedYear?: number | null;
+  available?: boolean;
+};
+
+/**
+ * One item of a POST /books/bulk batch. `update` has PUT semantics;
+ * `ifMatch` makes an update or delete conditional like the single-book routes.
+ */
+export type BulkOperation =
+  | { op: 'create'; data: CreateBookPayload | Partial<CreateBookPayload> }
+  | { op: 'update'; id: string | number; data: Partial<CreateBookPayload>; ifMatch?: string }
+  | { op: 'delete'; id: string | number; ifMatch?: string };
+
+/** File formats of GET /books/export and POST /books/import. */
+export type CatalogFormat = 'json' | 'csv';
+
+/** Fields GET /books can sort by. */
+export type BookSortField = 'id' | 'title' | 'author' | 'publishedYear';
+
+/**
+ * Query parameters accepted by GET /books.
+ * Without `limit` every matching book is returned.
+ */
+export type BookListQuery = {
+  limit?: number;
+  offset?: number;
+  /** Case-insensitive substring match. */
+  author?: string;
+  available?: boolean;
+  publishedYearMin?: number;
+  publishedYearMax?: number;
+  sort?: BookSortField | `${BookSortField}:${'asc' | 'desc'}`;
+};
+
 export type Book = {
   id: string | number;
   title: string;
@@ -0,0 +1,28 @@
+/**
+ * One fault rule for PUT /__admin/faults.
+ * The first rule matching a request fires with `probability` (default 1), at
+ * most `times` times when set. A fired rule waits `latencyMs`, then drops the
+ * connection (`drop`), answers `status`, or lets the route answer and
+ * truncates its JSON body (`malformedJson`).
+ */
+export type FaultRule = {
+  /** HTTP method to match; `*` (default) matches any. */
+  method?: '*' | 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** Path pattern such as `/books/:id` or `/books*`; `*` (default) matches any. */
+  path?: string;
+  /** Fixed delay, or a random delay between `min` and `max` (ms). */
+  latencyMs?: number | { min: number; max: number };
+  /** Error status (400-599) to answer instead of running the route. */
+  status?: number;
+  /** Seconds sent as `Retry-After` with `status`. */
+  retryAfter?: number;
+  probability?: number;
+  drop?: boolean;
+  malformedJson?: boolean;
+  times?: number;
+};
+
+/** Faults applied by `withFaults`; an empty `rules` list clears every fault. */
+export type FaultConfig = {
+  rules: FaultRule[];
+};
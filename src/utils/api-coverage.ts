@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * API endpoint coverage: which method/route/status combinations a run
+ * exercised, compared with the routes the mock lists and the statuses the
+ * OpenAPI document declares. Workers record hits (see `recordCoverageHit`),
+ * the `api-coverage` reporter aggregates them.
+ */
+
+/** Set by the reporter; workers write their hits into this directory. */
+export const API_COVERAGE_DIR_ENV = 'API_COVERAGE_DIR';
+
+/** One request as sent by a client; `status` is null when no response arrived. */
+export type CoverageHit = {
+  method: string;
+  path: string;
+  status: number | null;
+};
+
+/** A route of the server, e.g. `GET /books/:id`, with the statuses documented for it. */
+export type Route = {
+  method: string;
+  template: string;
+  documentedStatuses: number[];
+};
+
+export type CoverageRow = {
+  method: string;
+  template: string;
+  hits: number;
+  /** Responses received per status (`error` when the request got none). */
+  statuses: Record<string, number>;
+  documentedStatuses: number[];
+  /** Documented statuses no request received. */
+  missingStatuses: number[];
+};
+
+export type CoverageReport = {
+  generatedAt: string;
+  summary: {
+    routes: number;
+    coveredRoutes: number;
+    documentedStatuses: number;
+    coveredStatuses: number;
+  };
+  routes: CoverageRow[];
+  /** Requests that matched no listed route (e.g. deliberate 404 probes). */
+  unmatched: { method: string; path: string; hits: number; statuses: Record<string, number> }[];
+};
+
+/**
+ * Appends a hit to this process's file when coverage is being collected
+ * (API_COVERAGE_DIR is set); a no-op otherwise.
+ */
+export function recordCoverageHit(method: string, url: string, status: number | null): void {
+  const dir = process.env[API_COVERAGE_DIR_ENV];
+  if (!dir) return;
+
+  const hit: CoverageHit = {
+    method: method.toUpperCase(),
+    path: new URL(url, 'http://localhost').pathname,
+    status,
+  };
+  fs.mkdirSync(dir, { recursive: true });
+  fs.appendFileSync(path.join(dir, `hits-${process.pid}.jsonl`), JSON.stringify(hit) + '\n');
+}
+
+/** Every hit recorded in `dir` by any worker. */
+export function readCoverageHits(dir: string): CoverageHit[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter(file => file.endsWith('.jsonl'))
+    .flatMap(file => fs.readFileSync(path.join(dir, file), 'utf8').split('\n'))
+    .filter(line => line.trim() !== '')
+    .map(line => JSON.parse(line) as CoverageHit);
+}
+
+/**
+ * Routes from the 404 handler's `availableEndpoints` ("GET /books/:id"),
+ * with the statuses the OpenAPI document (`{id}` templates) declares for them.
+ */
+export function routesFrom(
+  availableEndpoints: readonly string[],
+  openApiPaths: Record<string, Record<string, { responses?: Record<string, unknown> }>> = {}
+): Route[] {
+  return availableEndpoints.map(endpoint => {
+    const [method = '', template = ''] = endpoint.split(' ');
+    const documented = openApiPaths[template.replace(/:(\w+)/g, '{$1}')]?.[method.toLowerCase()];
+    return {
+      method,
+      template,
+      documentedStatuses: Object.keys(documented?.responses ?? {}).map(Number).sort((a, b) => a - b),
+    };
+  });
+}
+
+/**
+ * Finds the route a request belongs to. Literal segments win over
+ * parameters, so `/books/search` is not taken for `/books/:id`.
+ */
+export function matchRoute(routes: readonly Route[], method: string, requestPath: string): Route | undefined {
+  const segments = (p: string) => p.split('/').filter(Boolean);
+  const target = segments(requestPath);
+  const candidates = routes
+    .filter(route => route.method === method.toUpperCase())
+    .map(route => ({ route, parts: segments(route.template) }))
+    .filter(({ parts }) => parts.length === target.length)
+    .filter(({ parts }) => parts.every((part, i) => part.startsWith(':') || part === target[i]));
+
+  const params = (parts: string[]) => parts.filter(part => part.startsWith(':')).length;
+  return candidates.sort((a, b) => params(a.parts) - params(b.parts))[0]?.route;
+}
+
+const statusKey = (status: number | null) => (status === null ? 'error' : String(status));
+
+function count(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/** Aggregates hits per route; every listed route gets a row, hit or not. */
+export function buildCoverageReport(routes: readonly Route[], hits: readonly CoverageHit[]): CoverageReport {
+  const rows = new Map<Route, CoverageRow>(
+    routes.map(route => [
+      route,
+      {
+        method: route.method,
+        template: route.template,
+        hits: 0,
+        statuses: {},
+        documentedStatuses: route.documentedStatuses,
+        missingStatuses: [],
+      },
+    ])
+  );
+  const unmatched = new Map<string, CoverageReport['unmatched'][number]>();
+
+  for (const hit of hits) {
+    const route = matchRoute(routes, hit.method, hit.path);
+    const row = route && rows.get(route);
+    if (row) {
+      row.hits += 1;
+      count(row.statuses, statusKey(hit.status));
+      continue;
+    }
+
+    const key = `${hit.method} ${hit.path}`;
+    const entry = unmatched.get(key) ?? { method: hit.method, path: hit.path, hits: 0, statuses: {} };
+    entry.hits += 1;
+    count(entry.statuses, statusKey(hit.status));
+    unmatched.set(key, entry);
+  }
+
+  const routeRows = [...rows.values()].map(row => ({
+    ...row,
+    missingStatuses: row.documentedStatuses.filter(status => !row.statuses[String(status)]),
+  }));
+  const documentedStatuses = routeRows.reduce((sum, row) => sum + row.documentedStatuses.length, 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    summary: {
+      routes: routeRows.length,
+      coveredRoutes: routeRows.filter(row => row.hits > 0).length,
+      documentedStatuses,
+      coveredStatuses: documentedStatuses - routeRows.reduce((sum, row) => sum + row.missingStatuses.length, 0),
+    },
+    routes: routeRows,
+    unmatched: [...unmatched.values()],
+  };
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char] ?? char);
+
+/** Self-contained HTML page: one row per route, uncovered routes and statuses highlighted. */
+export function renderCoverageHtml(report: CoverageReport): string {
+  const { summary } = report;
+  // Statuses are only "undocumented" on routes the OpenAPI document describes
+  const undocumented = (row: CoverageRow, status: string) =>
+    row.documentedStatuses.length > 0 && !row.documentedStatuses.includes(Number(status));
+  const statusCells = (row: CoverageRow) =>
+    [
+      ...Object.entries(row.statuses).map(
+        ([status, hits]) =>
+          `<span class="status${undocumented(row, status) ? ' undocumented' : ''}">${status} &times;${hits}</span>`
+      ),
+      ...row.missingStatuses.map(status => `<span class="status missing">${status}</span>`),
+    ].join(' ');
+
+  const rows = report.routes
+    .map(
+      row => `<tr class="${row.hits ? '' : 'uncovered'}">
+  <td>${escapeHtml(row.method)}</td><td>${escapeHtml(row.template)}</td><td>${row.hits}</td><td>${statusCells(row)}</td>
+</tr>`
+    )
+    .join('\n');
+  const unmatched = report.unmatched
+    .map(
+      entry => `<tr>
+  <td>${escapeHtml(entry.method)}</td><td>${escapeHtml(entry.path)}</td><td>${entry.hits}</td>
+  <td>${Object.entries(entry.statuses).map(([status, hits]) => `${status} &times;${hits}`).join(' ')}</td>
+</tr>`
+    )
+    .join('\n');
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>API coverage</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; }
+  table { border-collapse: collapse; margin-bottom: 2rem; }
+  th, td { border: 1px solid #ddd; padding: 0.3rem 0.6rem; text-align: left; }
+  tr.uncovered td { background: #fde2e2; }
+  .status { display: inline-block; padding: 0 0.4rem; border-radius: 3px; background: #e2f5e2; }
+  .status.missing { background: #fde2e2; text-decoration: line-through; }
+  .status.undocumented { background: #fff3cd; }
+</style>
+</head>
+<body>
+<h1>API coverage</h1>
+<p>${summary.coveredRoutes}/${summary.routes} routes and ${summary.coveredStatuses}/${summary.documentedStatuses} documented statuses exercised (${escapeHtml(report.generatedAt)}).</p>
+<p>Red rows: routes no request hit. <span class="status missing">404</span> documented status never received,
+<span class="status undocumented">500</span> status received but not documented.</p>
+<table>
+<tr><th>Method</th><th>Route</th><th>Requests</th><th>Statuses</th></tr>
+${rows}
+</table>
+${report.unmatched.length ? `<h2>Requests matching no route</h2>
+<table>
+<tr><th>Method</th><th>Path</th><th>Requests</th><th>Statuses</th></tr>
+${unmatched}
+</table>` : ''}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,48 @@
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import { ConfigSchema, TestEnvSchema, type Config } from '../schemas/config.schema';
+import { validateOrThrow } from './schema-helpers';
+
+/** Needs no secrets: the bundled mock with its seeded users, started by global setup. */
+export const DEFAULT_TEST_ENV = 'local-mock';
+
+/**
+ * Set by global setup with MOCK_SERVER=per-worker: the base URL of each
+ * worker's mock, comma-separated and indexed by TEST_PARALLEL_INDEX.
+ */
+export const MOCK_BASE_URLS_ENV = 'MOCK_BASE_URLS';
+
+/** The file read for an environment: `config/<env>.env`, relative to the working directory. */
+export function configFile(testEnv: string): string {
+  return path.resolve(process.cwd(), 'config', `${testEnv}.env`);
+}
+
+/**
+ * Validates `env` into the typed configuration. Throws one error listing
+ * every missing or invalid variable, named after the environment.
+ */
+export function parseConfig(env: Record<string, string | undefined>): Config {
+  const set = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined && value !== ''));
+  const testEnv = set.TEST_ENV ?? DEFAULT_TEST_ENV;
+  return validateOrThrow(
+    ConfigSchema,
+    { ...set, TEST_ENV: testEnv },
+    `configuration for TEST_ENV=${testEnv}, see ${path.relative(process.cwd(), configFile(testEnv))}`
+  );
+}
+
+/**
+ * Loads `config/<TEST_ENV>.env` (TEST_ENV defaults to `local-mock`) into the
+ * process environment, where variables already set win, and validates the
+ * result. Workers and child processes see the same variables, including the
+ * BASE_URL of a mock started by global setup.
+ */
+export function loadConfig(): Config {
+  const testEnv = validateOrThrow(TestEnvSchema, process.env.TEST_ENV || DEFAULT_TEST_ENV, 'TEST_ENV');
+  dotenv.config({ path: configFile(testEnv) });
+
+  const workerBaseURL = process.env[MOCK_BASE_URLS_ENV]?.split(',')[Number(process.env.TEST_PARALLEL_INDEX)];
+  return parseConfig({ ...process.env, ...(workerBaseURL && { BASE_URL: workerBaseURL }) });
+}
+
+export const config: Config = loadConfig();
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { BookSchema, type Book } from '../schemas/book.schema';
+import { validateOrThrow } from './schema-helpers';
+
+/** Column order of GET /books/export?format=csv. */
+export const BOOK_CSV_COLUMNS = ['id', 'title', 'author', 'isbn', 'publishedYear', 'available'] as const;
+
+/**
+ * Parse RFC 4180 CSV into rows of string fields.
+ * Handles quoted fields, `""` escapes and CRLF or LF line endings; a trailing
+ * line break does not produce an extra row. Throws on an unterminated quote.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) throw new Error('Malformed CSV: unterminated quoted field');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Serialize rows into RFC 4180 CSV with CRLF line endings.
+ * `undefined` and `null` become empty fields; fields containing a comma,
+ * quote or line break are quoted.
+ */
+export function serializeCsv(rows: readonly (readonly unknown[])[]): string {
+  const escape = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Serialize books in the export column order, header first.
+ */
+export function booksToCsv(books: readonly Book[]): string {
+  return serializeCsv([
+    BOOK_CSV_COLUMNS,
+    ...books.map(book => BOOK_CSV_COLUMNS.map(column => book[column])),
+  ]);
+}
+
+// CSV cells are strings: convert the typed columns; empty cells are missing values
+const CsvBookRowSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  author: z.string(),
+  isbn: z.string().optional(),
+  publishedYear: z.coerce.number().optional(),
+  available: z.enum(['true', 'false']).transform(value => value === 'true'),
+});
+
+/**
+ * Parse CSV produced by `booksToCsv` (or the export endpoint) back into books.
+ * Columns are matched by header name. Throws with the 1-based row number when
+ * a row is not a valid `Book`.
+ */
+export function booksFromCsv(text: string): Book[] {
+  const [header = [], ...records] = parseCsv(text);
+
+  return records.map((record, index) => {
+    const cells = Object.fromEntries(
+      header.flatMap((column, i) => (record[i] ? [[column, record[i]]] : []))
+    );
+    const row = validateOrThrow(CsvBookRowSchema, cells, `CSV row ${index + 1}`);
+    return validateOrThrow(BookSchema, row, `CSV row ${index + 1}`);
+  });
+}
@@ -0,0 +1,50 @@
+import type { SeededRandom } from './random';
+
+/**
+ * ISBN-10 check digit (0-9, or 'X' for 10) for the first nine digits.
+ */
+export function isbn10CheckDigit(first9: string): string {
+  const sum = [...first9].reduce((acc, d, i) => acc + Number(d) * (10 - i), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+/**
+ * ISBN-13 check digit for the first twelve digits.
+ */
+export function isbn13CheckDigit(first12: string): string {
+  const sum = [...first12].reduce((acc, d, i) => acc + Number(d) * (i % 2 ? 3 : 1), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Whether `isbn` (separators allowed) is a checksum-correct ISBN-10 or ISBN-13.
+ */
+export function hasValidIsbnChecksum(isbn: string): boolean {
+  const clean = isbn.replace(/[-\s]/g, '');
+  if (/^\d{9}[\dX]$/.test(clean)) return isbn10CheckDigit(clean.slice(0, 9)) === clean[9];
+  if (/^\d{13}$/.test(clean)) return isbn13CheckDigit(clean.slice(0, 12)) === clean[12];
+  return false;
+}
+
+/**
+ * Random checksum-correct ISBN-10.
+ * Values whose check digit would be 'X' are skipped because the API only
+ * accepts digits.
+ */
+export function generateIsbn10(random: SeededRandom): string {
+  for (;;) {
+    const body = random.digits(9);
+    const check = isbn10CheckDigit(body);
+    if (check !== 'X') return body + check;
+  }
+}
+
+/**
+ * Random checksum-correct ISBN-13 with a 978/979 prefix, hyphenated as
+ * `978-XXXXXXXXXX` like the seed data.
+ */
+export function generateIsbn13(random: SeededRandom): string {
+  const body = random.pick(['978', '979']) + random.digits(9);
+  return `${body.slice(0, 3)}-${body.slice(3)}${isbn13CheckDigit(body)}`;
+}
@@ -0,0 +1,21 @@
+import { JwtPayloadSchema, type JwtPayload } from '../schemas/auth.schema';
+import { validateOrThrow } from './schema-helpers';
+
+/**
+ * Decode (without verifying) the payload of a JWT.
+ * Throws when the token is malformed or lacks the expected claims.
+ */
+export function decodeJwt(token: string): JwtPayload {
+  const payload = token.split('.')[1];
+  if (!payload) throw new Error('Malformed JWT: expected three dot-separated segments');
+
+  const json = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  return validateOrThrow(JwtPayloadSchema, json, 'JWT payload');
+}
+
+/**
+ * Seconds until the token expires (negative once expired).
+ */
+export function secondsUntilExpiry(claims: JwtPayload, now = Date.now()): number {
+  return claims.exp - Math.floor(now / 1000);
+}
@@ -0,0 +1,85 @@
+import { spawn } from 'child_process';
+import { once } from 'events';
+import * as net from 'net';
+import * as path from 'path';
+
+/** Directory of the bundled Express mock (book-library-api-mock/). */
+export const MOCK_SERVER_DIR = path.resolve(__dirname, '..', '..', 'book-library-api-mock');
+
+export interface MockServer {
+  readonly baseURL: string;
+  readonly port: number;
+  /** Stops the server process and waits for it to exit. */
+  stop(): Promise<void>;
+}
+
+export interface StartMockServerOptions {
+  /** Extra environment variables for the server process (e.g. STORAGE, STORAGE_FILE). */
+  env?: Record<string, string>;
+  /** Fixed port; a free one is picked when omitted. */
+  port?: number;
+  /** How long to wait for GET /health to answer 200. */
+  timeoutMs?: number;
+}
+
+/** Asks the OS for a port nobody is listening on. */
+export async function findFreePort(): Promise<number> {
+  const server = net.createServer();
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const { port } = server.address() as net.AddressInfo;
+  server.close();
+  await once(server, 'close');
+  return port;
+}
+
+/**
+ * Starts `node server.js` from the mock directory on its own port and resolves
+ * once /health answers. Fails with the server output if it exits or does not
+ * become healthy within `timeoutMs`.
+ */
+export async function startMockServer(options: StartMockServerOptions = {}): Promise<MockServer> {
+  const port = options.port ?? (await findFreePort());
+  const baseURL = `http://127.0.0.1:${port}`;
+  const timeoutMs = options.timeoutMs ?? 10_000;
+
+  const child = spawn(process.execPath, ['server.js'], {
+    cwd: MOCK_SERVER_DIR,
+    env: { ...process.env, ...options.env, PORT: String(port) },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  // Collected for the startup errors only; morgan logs every request afterwards
+  let output = '';
+  const collect = (chunk: Buffer) => (output += chunk);
+  child.stdout.on('data', collect);
+  child.stderr.on('data', collect);
+  const exited = once(child, 'exit');
+
+  const stop = async () => {
+    if (child.exitCode !== null || child.signalCode !== null) return;
+    child.kill('SIGTERM');
+    await exited;
+  };
+
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`Mock server exited with code ${child.exitCode}:\n${output}`);
+    }
+    try {
+      const res = await fetch(`${baseURL}/health`);
+      if (res.ok) {
+        // Keep draining the pipes so the server never blocks on a full one
+        for (const stream of [child.stdout, child.stderr]) stream.off('data', collect).resume();
+        output = '';
+        return { baseURL, port, stop };
+      }
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  await stop();
+  throw new Error(`Mock server did not become healthy within ${timeoutMs}ms:\n${output}`);
+}
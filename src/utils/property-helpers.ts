@@ -0,0 +1,38 @@
+import fc from 'fast-check';
+import type { ZodType } from 'zod';
+
+/**
+ * Property-based check that the API accepts exactly the payloads `schema`
+ * accepts: schema-valid payloads must get a 2xx, invalid ones a 400.
+ * On mismatch fast-check shrinks the payload and the thrown Error contains the
+ * minimal counterexample plus the seed/path needed to replay it.
+ *
+ * @param arb - Generator of candidate payloads
+ * @param schema - Client-side schema predicting the server decision
+ * @param send - Sends one payload and returns the response status
+ * @param options - `seed` makes the run reproducible; `numRuns` defaults to 100
+ */
+export async function assertSchemaParity<T>(
+  arb: fc.Arbitrary<T>,
+  schema: ZodType,
+  send: (payload: T) => Promise<{ status: number; ok: boolean }>,
+  options: { seed: number; numRuns?: number }
+): Promise<void> {
+  await fc.assert(
+    fc.asyncProperty(arb, async payload => {
+      const predicted = schema.safeParse(payload);
+      const { status, ok } = await send(payload);
+
+      if (predicted.success && !ok) {
+        throw new Error(`Schema accepts the payload but the server answered ${status}`);
+      }
+      if (!predicted.success && status !== 400) {
+        const reasons = predicted.error.issues.map(e => `${e.path.join('.') || '<root>'}: ${e.message}`);
+        throw new Error(
+          `Schema rejects the payload (${reasons.join('; ')}) but the server answered ${status}`
+        );
+      }
+    }),
+    { seed: options.seed, numRuns: options.numRuns ?? 100 }
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * Small seeded pseudo-random generator (mulberry32).
+ * The same seed always yields the same sequence, which makes randomly
+ * generated test data reproducible.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Next float in [0, 1). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Integer in [min, max] (both inclusive). */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  bool(): boolean {
+    return this.next() < 0.5;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    if (!items.length) throw new Error('Cannot pick from an empty list');
+    return items[this.int(0, items.length - 1)]!;
+  }
+
+  /** String of `length` random decimal digits. */
+  digits(length: number): string {
+    let out = '';
+    for (let i = 0; i < length; i++) out += String(this.int(0, 9));
+    return out;
+  }
+}
+
+/**
+ * Seed for the current run: `TEST_SEED` when set (to reproduce a failure),
+ * otherwise a fresh random value.
+ */
+export function resolveSeed(): number {
+  const fromEnv = process.env.TEST_SEED;
+  if (fromEnv) {
+    const seed = Number(fromEnv);
+    if (!Number.isInteger(seed)) {
+      throw new Error(`Invalid TEST_SEED "${fromEnv}": expected an integer`);
+    }
+    return seed;
+  }
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+let current = new SeededRandom(resolveSeed());
+
+/**
+ * Shared generator used by data builders when none is passed explicitly.
+ * Reseeded per test by the `seed` fixture.
+ */
+export function defaultRandom(): SeededRandom {
+  return current;
+}
+
+export function reseed(seed: number): SeededRandom {
+  current = new SeededRandom(seed);
+  return current;
+}
@@ -0,0 +1,96 @@
+import { test, type APIResponse } from '@playwright/test';
+import type { ZodType } from 'zod';
+import { config } from './config';
+import type { ApiErrorBody, ApiResult } from '../types/api-result';
+import { attemptsOf } from '../clients/retry';
+import { validateOrThrow } from './schema-helpers';
+
+/**
+ * How the service layer treats responses that do not match their schema.
+ * - `strict`: throw (the test fails at the call site)
+ * - `warn`: attach a report to the running test and return the raw body
+ * - `off`: skip validation entirely
+ */
+export type ValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+ * Response schemas of one endpoint, keyed by HTTP status.
+ * Statuses without a schema are passed through unvalidated.
+ */
+export type ResponseSchemas = Partial<Record<number, ZodType>>;
+
+/** The validation mode configured by the SCHEMA_VALIDATION environment variable. */
+export function getValidationMode(): ValidationMode {
+  return config.features.schemaValidation;
+}
+
+/**
+ * Validate a response body against the schema registered for its status.
+ * Returns the parsed body when validation passes, otherwise the raw body
+ * (or throws in `strict` mode). `mode` defaults to the configured one.
+ */
+export async function validateResponse(
+  schemas: ResponseSchemas,
+  status: number,
+  body: unknown,
+  context: string,
+  mode: ValidationMode = getValidationMode()
+): Promise<unknown> {
+  const schema = schemas[status];
+  if (mode === 'off' || !schema) return body;
+
+  const label = `${context} ${status} response`;
+  if (mode === 'strict') return validateOrThrow(schema, body, label);
+
+  const result = schema.safeParse(body);
+  if (result.success) return result.data;
+
+  await reportViolation(label, {
+    issues: result.error.issues.map(e => ({
+      path: e.path.join('.') || '<root>',
+      message: e.message,
+    })),
+    body,
+  });
+  return body;
+}
+
+/**
+ * Reads status, JSON body and the attempts behind a response into an ApiResult.
+ * Bodies that are not valid JSON are reported as `null`. When `schemas` are
+ * given the body is validated (and parsed) for the received status.
+ */
+export async function toResult<TSuccess, TError = ApiErrorBody>(
+  res: APIResponse,
+  schemas: ResponseSchemas = {},
+  context = ''
+): Promise<ApiResult<TSuccess, TError>> {
+  const status = res.status();
+  const raw = await res.json().catch(() => null);
+  const body = await validateResponse(schemas, status, raw, context);
+  const attempts = attemptsOf(res);
+
+  return res.ok()
+    ? { ok: true, status, body: body as TSuccess, attempts }
+    : { ok: false, status, body: body as TError, attempts };
+}
+
+/**
+ * Record a schema violation on the running test; falls back to the console
+ * when called outside of a test (e.g. from global setup).
+ */
+async function reportViolation(label: string, report: object): Promise<void> {
+  let testInfo;
+  try {
+    testInfo = test.info();
+  } catch {
+    console.warn(`Schema validation failed (${label}):`, JSON.stringify(report, null, 2));
+    return;
+  }
+
+  testInfo.annotations.push({ type: 'schema-validation', description: label });
+  await testInfo.attach(`schema-validation: ${label}`, {
+    body: JSON.stringify(report, null, 2),
+    contentType: 'application/json',
+  });
+}
@@ -0,0 +1,33 @@
+import type { ApiResult } from '../types/api-result';
+
+/**
+ * Narrow an ApiResult to its success branch.
+ * Throws a detailed Error (status + body) when the request failed.
+ */
+export function assertOk<R extends ApiResult<unknown, unknown, object>>(
+  result: R,
+  context = ''
+): asserts result is Extract<R, { ok: true }> {
+  if (result.ok) return;
+
+  throw new Error(
+    `${context ? `Expected success (${context})` : 'Expected success'}, got ${result.status}:\n` +
+      JSON.stringify(result.body, null, 2)
+  );
+}
+
+/**
+ * Narrow an ApiResult to its failure branch.
+ * Throws a detailed Error (status + body) when the request unexpectedly succeeded.
+ */
+export function assertFailure<R extends ApiResult<unknown, unknown, object>>(
+  result: R,
+  context = ''
+): asserts result is Extract<R, { ok: false }> {
+  if (!result.ok) return;
+
+  throw new Error(
+    `${context ? `Expected failure (${context})` : 'Expected failure'}, got ${result.status}:\n` +
+      JSON.stringify(result.body, null, 2)
+  );
+}
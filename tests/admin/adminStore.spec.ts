@@ -0,0 +1,124 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import {
+  resetStore,
+  restoreSnapshot,
+  saveSnapshot,
+  seedStore,
+} from "../../src/services/admin.service";
+import { getBookById, listBooks } from "../../src/services/books.service";
+import type { CreateBookPayload } from "../../src/types/book.dto";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import {
+  BadRequestErrorSchema,
+  ForbiddenErrorSchema,
+  NotFoundErrorSchema,
+} from "../../src/schemas/error.schema";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
+
+// Every test here replaces the whole catalog, so it runs in the "store" project
+test.describe("Admin store endpoints", { tag: "@store" }, () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify seed replaces the catalog and reset restores the seven seed books", async ({
+    token,
+    freshLibrary,
+  }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const payloads = [aBook().build(), aBook().withAvailable(false).build()];
+
+    const seeded = await seedStore(apiRequestContext, payloads, token);
+    assertOk(seeded, "seedStore");
+    expect(seeded.books.map(book => book.id)).toEqual(["1", "2"]);
+    expect(seeded.books[1]).toMatchObject(payloads[1] ?? {});
+
+    const listed = await listBooks(apiRequestContext);
+    assertOk(listed, "listBooks");
+    expect(listed.books).toEqual(seeded.books);
+
+    const reset = await resetStore(apiRequestContext, token);
+    assertOk(reset, "resetStore");
+    expect(reset.books).toEqual(freshLibrary.books);
+    expect(reset.books.map(book => book.id)).toEqual(["1", "2", "3", "4", "5", "6", "7"]);
+  });
+
+  test("Verify a restored snapshot undoes every change made after it", async ({ token, freshLibrary }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const saved = await saveSnapshot(apiRequestContext, "before-changes", token);
+    assertOk(saved, "saveSnapshot");
+    expect(saved.status).toBe(201);
+
+    const created = await freshLibrary.createBook(aBook().build());
+    assertOk(created, "createBook");
+    await seedStore(apiRequestContext, [aBook().build()], token);
+
+    const restored = await restoreSnapshot(apiRequestContext, "before-changes", token);
+    assertOk(restored, "restoreSnapshot");
+
+    const listed = await listBooks(apiRequestContext);
+    assertOk(listed, "listBooks");
+    expect(listed.books).toEqual(freshLibrary.books);
+    const gone = await getBookById(apiRequestContext, created.book.id);
+    expect(gone.status).toBe(404);
+  });
+
+  test("Verify restoring an unknown snapshot returns 404", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const result = await restoreSnapshot(apiRequestContext, "never-saved", token);
+    assertFailure(result, "restoreSnapshot");
+    expect(result.status).toBe(404);
+    validateOrThrow(NotFoundErrorSchema, result.body, "restoreSnapshot 404 response");
+  });
+
+  test("Verify a seed with an invalid book is rejected and changes nothing", async ({ token, freshLibrary }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const result = await seedStore(apiRequestContext, [aBook().build(), aBook().invalidIsbn().build()], token);
+    assertFailure(result, "seedStore");
+    expect(result.status).toBe(400);
+    const body = validateOrThrow(BadRequestErrorSchema, result.body, "seedStore 400 response");
+    expect(body.message).toContain("Book 1: Invalid ISBN format");
+
+    const listed = await listBooks(apiRequestContext);
+    assertOk(listed, "listBooks");
+    expect(listed.books).toEqual(freshLibrary.books);
+  });
+
+  test("Verify an invalid snapshot name is rejected with 400", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const result = await saveSnapshot(apiRequestContext, "not a/valid name", token);
+    assertFailure(result, "saveSnapshot");
+    expect(result.status).toBe(400);
+  });
+
+  test("Verify admin endpoints reject librarians and anonymous callers", async ({ asRole }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const books: CreateBookPayload[] = [aBook().build()];
+
+    const forbidden = await seedStore(apiRequestContext, books, await asRole("librarian"));
+    assertFailure(forbidden, "seedStore");
+    expect(forbidden.status).toBe(403);
+    validateOrThrow(ForbiddenErrorSchema, forbidden.body, "seedStore 403 response");
+
+    const anonymous = await resetStore(apiRequestContext);
+    assertFailure(anonymous, "resetStore");
+    expect(anonymous.status).toBe(401);
+  });
+});
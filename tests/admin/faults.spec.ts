@@ -0,0 +1,146 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import {
+  clearFaults,
+  getFaults,
+  setFaults,
+  withFaults,
+} from "../../src/services/admin.service";
+import { getBookById, listBooks, rawRequest } from "../../src/services/books.service";
+import { withRetryPolicy } from "../../src/clients/retry";
+import type { FaultRule } from "../../src/types/fault.dto";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import { InjectedFaultErrorSchema } from "../../src/schemas/fault.schema";
+import { BadRequestErrorSchema } from "../../src/schemas/error.schema";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
+
+// Faults apply to every client of the server, so these run in the "store" project
+test.describe("Fault injection", { tag: "@store" }, () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterEach(async ({ token }) => {
+    if (apiRequestContext) await clearFaults(apiRequestContext, token);
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify fixed latency delays only the matching route", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    await withFaults(api, { rules: [{ method: "GET", path: "/books", latencyMs: 400 }] }, token, async () => {
+      let started = Date.now();
+      assertOk(await listBooks(api), "listBooks");
+      expect(Date.now() - started).toBeGreaterThanOrEqual(400);
+
+      started = Date.now();
+      assertOk(await getBookById(api, "1"), "getBookById");
+      expect(Date.now() - started).toBeLessThan(400);
+    });
+  });
+
+  test("Verify an error status is answered the configured number of times", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    await withFaults(api, { rules: [{ method: "GET", path: "/books/:id", status: 503, times: 2 }] }, token, async () => {
+      for (let attempt = 1; attempt <= 2; attempt++) {
+        const failed = await rawRequest(api, "get", "/books/1");
+        expect(failed.status).toBe(503);
+        validateOrThrow(InjectedFaultErrorSchema, failed.body, "injected 503 response");
+      }
+      assertOk(await getBookById(api, "1"), "getBookById");
+
+      const faults = await getFaults(api, token);
+      assertOk(faults, "getFaults");
+      expect(faults.rules[0]?.times).toBe(0);
+    });
+  });
+
+  test("Verify a probability of 0 never fires and other methods are unaffected", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    await withFaults(
+      api,
+      { rules: [{ path: "/books", status: 500, probability: 0 }, { method: "DELETE", path: "*", status: 500 }] },
+      token,
+      async () => {
+        assertOk(await listBooks(api), "listBooks");
+        assertOk(await library.createBook(aBook().build()), "createBook");
+      }
+    );
+  });
+
+  test("Verify a dropped connection makes the request fail", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    await withFaults(api, { rules: [{ path: "/books/:id", drop: true, times: 1 }] }, token, async () => {
+      // Retries would hide the drop, see tests/books/retries.spec.ts
+      await expect(withRetryPolicy({ maxAttempts: 1 }, () => getBookById(api, "1"))).rejects.toThrow();
+      assertOk(await getBookById(api, "1"), "getBookById");
+    });
+  });
+
+  test("Verify a malformed JSON fault truncates the route's response body", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    await withFaults(api, { rules: [{ path: "/books/:id", malformedJson: true }] }, token, async () => {
+      // rawRequest reports a body that is not valid JSON as null
+      const result = await rawRequest(api, "get", "/books/1");
+      expect(result.status).toBe(200);
+      expect(result.body).toBeNull();
+    });
+  });
+
+  test("Verify withFaults clears the faults even when the callback throws", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    await expect(
+      withFaults(api, { rules: [{ path: "*", status: 500 }] }, token, async () => {
+        throw new Error("test failure");
+      })
+    ).rejects.toThrow("test failure");
+
+    const faults = await getFaults(api, token);
+    assertOk(faults, "getFaults");
+    expect(faults.rules).toEqual([]);
+    assertOk(await listBooks(api), "listBooks");
+  });
+
+  for (const [name, rule, message] of [
+    ["no fault", { path: "/books" }, "Rule has no fault"],
+    ["an unknown method", { method: "TRACE", status: 500 }, "Invalid method"],
+    ["a success status", { status: 200 }, "Invalid status"],
+    ["a probability above 1", { status: 500, probability: 2 }, "Invalid probability"],
+    ["an inverted latency range", { latencyMs: { min: 500, max: 100 } }, "Invalid latencyMs"],
+    ["an unknown field", { status: 500, delay: 100 }, "Unknown field 'delay'"],
+  ] as const) {
+    test(`Verify a rule with ${name} is rejected with 400`, async ({ token }) => {
+      if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+      // Cast: these rules are deliberately invalid
+      const result = await setFaults(apiRequestContext, [rule as unknown as FaultRule], token);
+      assertFailure(result, "setFaults");
+      expect(result.status).toBe(400);
+      const body = validateOrThrow(BadRequestErrorSchema, result.body, "setFaults 400 response");
+      expect(body.message).toContain(message);
+    });
+  }
+});
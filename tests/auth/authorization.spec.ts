@@ -0,0 +1,157 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import type { Library } from "../../src/fixtures/library.fixture";
+import { getFaults, restoreSnapshot } from "../../src/services/admin.service";
+import {
+  bulkBooks,
+  createBook,
+  deleteBook,
+  getBookById,
+  importBooks,
+  patchBook,
+  rawRequest,
+  updateBook,
+} from "../../src/services/books.service";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import { ROLES, type Role } from "../../src/types/auth.dto";
+import { assertOk } from "../../src/utils/result-helpers";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import {
+  ForbiddenErrorSchema,
+  MissingTokenErrorSchema,
+} from "../../src/schemas/error.schema";
+
+type Actor = Role | "anonymous";
+
+type RouteCase = {
+  route: string;
+  expected: Record<Actor, number>;
+  send: (ctx: {
+    api: APIRequestContext;
+    token: string | undefined;
+    library: Library;
+    bookId: string;
+  }) => Promise<{ status: number; ok: boolean; body: unknown }>;
+};
+
+// Expected status for every route x role combination
+const MATRIX: RouteCase[] = [
+  {
+    route: "GET /books",
+    expected: { anonymous: 200, viewer: 200, librarian: 200, admin: 200 },
+    send: ({ api, token }) => rawRequest(api, "get", "/books", token ? { token } : {}),
+  },
+  {
+    route: "GET /books/:id",
+    expected: { anonymous: 200, viewer: 200, librarian: 200, admin: 200 },
+    send: ({ api, bookId }) => getBookById(api, bookId),
+  },
+  {
+    route: "POST /books",
+    expected: { anonymous: 401, viewer: 403, librarian: 201, admin: 201 },
+    send: async ({ api, token, library }) => {
+      const result = await createBook(api, aBook().build(), token);
+      if (result.ok) library.track(result.book.id);
+      return result;
+    },
+  },
+  {
+    route: "PUT /books/:id",
+    expected: { anonymous: 401, viewer: 403, librarian: 200, admin: 200 },
+    send: ({ api, token, bookId }) =>
+      updateBook(api, bookId, { available: false }, token),
+  },
+  {
+    route: "PATCH /books/:id",
+    expected: { anonymous: 401, viewer: 403, librarian: 200, admin: 200 },
+    send: ({ api, token, bookId }) =>
+      patchBook(api, bookId, { available: false }, token),
+  },
+  {
+    route: "DELETE /books/:id",
+    expected: { anonymous: 401, viewer: 403, librarian: 403, admin: 200 },
+    send: ({ api, token, bookId }) => deleteBook(api, bookId, token),
+  },
+  {
+    route: "POST /books/bulk",
+    expected: { anonymous: 401, viewer: 403, librarian: 200, admin: 200 },
+    send: async ({ api, token, library }) => {
+      const result = await bulkBooks(api, [{ op: "create", data: aBook().build() }], token);
+      if (result.ok) result.results.forEach(item => item.id && library.track(item.id));
+      return result;
+    },
+  },
+  {
+    route: "POST /books/import",
+    expected: { anonymous: 401, viewer: 403, librarian: 201, admin: 201 },
+    send: async ({ api, token, library }) => {
+      const result = await importBooks(api, [aBook().build()], token);
+      if (result.ok) result.books.forEach(book => library.track(book.id));
+      return result;
+    },
+  },
+  // The admin router checks the role before the route runs; an unknown snapshot leaves the store untouched
+  {
+    route: "POST /__admin/restore/:name",
+    expected: { anonymous: 401, viewer: 403, librarian: 403, admin: 404 },
+    send: ({ api, token }) => restoreSnapshot(api, "authorization-matrix-unknown", token),
+  },
+  {
+    route: "GET /__admin/faults",
+    expected: { anonymous: 401, viewer: 403, librarian: 403, admin: 200 },
+    send: ({ api, token }) => getFaults(api, token),
+  },
+];
+
+const ACTORS: Actor[] = ["anonymous", ...ROLES];
+
+test.describe("Authorization matrix - route x role", () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  for (const { route, expected, send } of MATRIX) {
+    for (const actor of ACTORS) {
+      test(`Verify ${route} as ${actor} returns ${expected[actor]}`, async ({
+        asRole,
+        library,
+      }) => {
+        if (!apiRequestContext)
+          throw new Error("apiRequestContext not initialized");
+
+        // Every case gets its own target book so writes cannot interfere
+        const createResult = await library.createBook(aBook().build());
+        assertOk(createResult, "createBook");
+
+        const token = actor === "anonymous" ? undefined : await asRole(actor);
+        const result = await send({
+          api: apiRequestContext,
+          token,
+          library,
+          bookId: createResult.book.id,
+        });
+
+        expect(result.status).toBe(expected[actor]);
+        if (result.status === 403) {
+          const body = validateOrThrow(ForbiddenErrorSchema, result.body, route);
+          expect(body.message).toContain(`Role '${actor}'`);
+        }
+        if (result.status === 401) {
+          validateOrThrow(MissingTokenErrorSchema, result.body, route);
+        }
+      });
+    }
+  }
+});
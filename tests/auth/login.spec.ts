@@ -1,10 +1,9 @@
 import {
-  test,
-  expect,
   request as playwrightRequest,
   type APIRequestContext,
 } from "@playwright/test";
-import { BASE_URL, AUTH_USERNAME, AUTH_PASSWORD } from "../../src/utils/env";
+import { test, expect } from "../../src/fixtures/http-log.fixture";
+import { config } from "../../src/utils/config";
 import { authenticate } from "../../src/services/auth.service";
 import {
   createBook,
@@ -13,13 +12,20 @@ import {
 } from "../../src/services/books.service";
 import { CreateBookPayload } from "../../src/types/book.dto";
 import { LoginPayload } from "../../src/clients/auth.client";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import {
+  LoginErrorSchema,
+  LoginResponseSchema,
+} from "../../src/schemas/auth.schema";
+import { MissingTokenErrorSchema } from "../../src/schemas/error.schema";
 
 test.describe("Auth - login", () => {
   let apiRequestContext: APIRequestContext | null;
 
   test.beforeAll(async () => {
     apiRequestContext = await playwrightRequest.newContext({
-      baseURL: BASE_URL,
+      baseURL: config.baseURL,
     });
   });
 
@@ -31,21 +37,16 @@ test.describe("Auth - login", () => {
     if (!apiRequestContext)
       throw new Error("API request context not initialized");
 
-    const result = await authenticate(apiRequestContext, {
-      username: AUTH_USERNAME,
-      password: AUTH_PASSWORD,
-    } as LoginPayload);
+    const result = await authenticate(apiRequestContext, config.credentials.admin);
 
     expect(result.ok).toBeTruthy();
     expect(result.status, "Expect Login status to be 200").toBe(200);
+    assertOk(result, "login");
 
     expect(result.token).toBeTruthy();
 
-    expect(
-      result.body.message,
-      "Expect Login response to have message Login successful"
-    ).toBe("Login successful");
-    expect(result.body.user.username).toBe("admin");
+    const body = validateOrThrow(LoginResponseSchema, result.body, "login response");
+    expect(body.user.username).toBe("admin");
   });
 
   test("should return 401 for invalid credentials", async () => {
@@ -53,18 +54,20 @@ test.describe("Auth - login", () => {
       throw new Error("API request context not initialized");
 
     const result = await authenticate(apiRequestContext, {
-      username: AUTH_USERNAME,
+      username: config.credentials.admin.username,
       password: "password123",
     });
 
     expect(result.status).toBe(401);
+    assertFailure(result, "login with invalid credentials");
+    const body = validateOrThrow(LoginErrorSchema, result.body, "login response");
 
     expect(
-      result.body.message,
+      body.message,
       "Expect login response to have message as invalid username or password"
     ).toBe("Invalid username or password");
     expect(result.token).toBeUndefined();
-    expect(result.body.error).toBe("Unauthorized");
+    expect(body.error).toBe("Unauthorized");
   });
 
   test("should return 400 for missing credentials", async () => {
@@ -74,10 +77,12 @@ test.describe("Auth - login", () => {
     const result = await authenticate(apiRequestContext, {} as LoginPayload);
 
     expect(result.status).toBe(400);
+    assertFailure(result, "login with missing credentials");
+    const body = validateOrThrow(LoginErrorSchema, result.body, "login response");
 
-    expect(result.body.message, "Expect login response to mention required fields").toBe("Username and password are required");
+    expect(body.message, "Expect login response to mention required fields").toBe("Username and password are required");
     expect(result.token).toBeUndefined();
-    expect(result.body.error).toBe("Bad Request");
+    expect(body.error).toBe("Bad Request");
   });
 });
 
@@ -86,7 +91,7 @@ test.describe("Auth protection - protected endpoints", () => {
 
   test.beforeAll(async () => {
     apiRequestContext = await playwrightRequest.newContext({
-      baseURL: BASE_URL,
+      baseURL: config.baseURL,
     });
   });
 
@@ -107,8 +112,9 @@ test.describe("Auth protection - protected endpoints", () => {
 
     expect(res.ok).toBe(false);
     expect(res.status).toBe(401);
-    expect(res.body.error).toBe("Access denied. No token provided.");
-    expect(res.body.message).toBe(
+    assertFailure(res, "createBook without token");
+    const body = validateOrThrow(MissingTokenErrorSchema, res.body, "unauthenticated response");
+    expect(body.message).toBe(
       "Authorization header with Bearer token is required"
     );
   });
@@ -122,8 +128,9 @@ test.describe("Auth protection - protected endpoints", () => {
 
     expect(updateResult.ok).toBe(false);
     expect(updateResult.status).toBe(401);
-    expect(updateResult.body.error).toBe("Access denied. No token provided.");
-    expect(updateResult.body.message).toBe(
+    assertFailure(updateResult, "updateBook without token");
+    const body = validateOrThrow(MissingTokenErrorSchema, updateResult.body, "unauthenticated response");
+    expect(body.message).toBe(
       "Authorization header with Bearer token is required"
     );
   });
@@ -135,8 +142,9 @@ test.describe("Auth protection - protected endpoints", () => {
     const delResult = await deleteBook(apiRequestContext, "1");
     expect(delResult.ok).toBe(false);
     expect(delResult.status).toBe(401);
-    expect(delResult.body.error).toBe("Access denied. No token provided.");
-    expect(delResult.body.message).toBe(
+    assertFailure(delResult, "deleteBook without token");
+    const body = validateOrThrow(MissingTokenErrorSchema, delResult.body, "unauthenticated response");
+    expect(body.message).toBe(
       "Authorization header with Bearer token is required"
     );
   });
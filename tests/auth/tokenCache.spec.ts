@@ -0,0 +1,75 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect } from "../../src/fixtures/auth.fixture";
+import { TokenCache } from "../../src/services/token-cache";
+import { config } from "../../src/utils/config";
+import { decodeJwt, secondsUntilExpiry } from "../../src/utils/jwt";
+
+const credentials = config.credentials.admin;
+
+test.describe("Auth - worker token cache", () => {
+  let apiRequestContext: APIRequestContext | null;
+  let warmCache: { token: string; logins: number };
+
+  test.beforeAll(async ({ tokenCache }) => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+    // Filled before any test fixture runs, so logins made by fixtures can be told apart
+    const { token } = await tokenCache.get();
+    warmCache = { token, logins: tokenCache.logins };
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify the token fixture decodes to the configured user and is served from the worker cache", async ({
+    token,
+    tokenCache,
+  }) => {
+    const claims = decodeJwt(token);
+    expect(claims.username).toBe(credentials.username);
+    expect(claims.role).toBeTruthy();
+    expect(secondsUntilExpiry(claims)).toBeGreaterThan(0);
+
+    const logins = tokenCache.logins;
+    const cached = await tokenCache.get();
+    expect(cached.token).toBe(token);
+    expect(tokenCache.logins, "Expect no extra login for a valid cached token").toBe(logins);
+  });
+
+  test("Verify freshToken logs in separately without touching the worker cache", async ({
+    freshToken,
+    tokenCache,
+    httpLog,
+  }) => {
+    const loginRequests = httpLog.filter(
+      e => e.method === "POST" && new URL(e.url).pathname === "/auth/login"
+    );
+
+    // The cache was filled in beforeAll, so the only login of this test is freshToken's own
+    expect(decodeJwt(freshToken).username).toBe(credentials.username);
+    expect(loginRequests).toHaveLength(1);
+    expect(tokenCache.logins).toBe(warmCache.logins);
+    expect((await tokenCache.get()).token).toBe(warmCache.token);
+  });
+
+  test("Verify the cache logs in again once the token is within the refresh margin", async () => {
+    if (!apiRequestContext)
+      throw new Error("API request context not initialized");
+
+    // A margin longer than the token lifetime forces a refresh on every get
+    const cache = new TokenCache(apiRequestContext, credentials, 48 * 60 * 60);
+    await cache.get();
+    await cache.get();
+    expect(cache.logins).toBe(2);
+
+    const concurrent = new TokenCache(apiRequestContext, credentials);
+    const [first, second] = await Promise.all([concurrent.get(), concurrent.get()]);
+    expect(second.token).toBe(first.token);
+    expect(concurrent.logins, "Expect concurrent callers to share one login").toBe(1);
+  });
+});
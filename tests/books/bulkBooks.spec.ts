@@ -0,0 +1,204 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect, type Library } from "../../src/fixtures/library.fixture";
+import { bulkBooks, getBookById } from "../../src/services/books.service";
+import type { BulkOperation } from "../../src/types/book.dto";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import { BulkResultSchema, type BulkItemResult } from "../../src/schemas/bulk.schema";
+import { BadRequestErrorSchema } from "../../src/schemas/error.schema";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
+
+/** Registers every book a batch created for cleanup. */
+function trackCreated(library: Library, results: readonly BulkItemResult[]): void {
+  for (const result of results) {
+    if (result.op === "create" && result.status === 201 && result.id) library.track(result.id);
+  }
+}
+
+test.describe("Bulk Books", () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify a batch of creates is applied in order with one result per item", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const payloads = [aBook().build(), aBook().build(), aBook().build()];
+
+    const result = await bulkBooks(
+      apiRequestContext,
+      payloads.map(data => ({ op: "create", data })),
+      token
+    );
+    assertOk(result, "bulkBooks");
+    trackCreated(library, result.results);
+
+    expect(result.status).toBe(200);
+    expect(result.body.summary).toEqual({ total: 3, succeeded: 3, failed: 0 });
+    expect(result.results.map(r => [r.index, r.status])).toEqual([[0, 201], [1, 201], [2, 201]]);
+
+    for (const [index, item] of result.results.entries()) {
+      const fetched = await getBookById(apiRequestContext, item.id ?? "");
+      assertOk(fetched, "getBookById");
+      expect(fetched.book).toMatchObject(payloads[index] ?? {});
+    }
+  });
+
+  test("Verify a mixed batch reports each failure without blocking the other items", async ({
+    token,
+    library,
+  }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const toUpdate = await library.createBook(aBook().withAvailable(true).build());
+    const toDelete = await library.createBook(aBook().build());
+    assertOk(toUpdate, "createBook");
+    assertOk(toDelete, "createBook");
+
+    const operations: BulkOperation[] = [
+      { op: "create", data: aBook().build() },
+      { op: "create", data: aBook().invalidIsbn().build() },
+      { op: "update", id: toUpdate.book.id, data: { available: false } },
+      { op: "update", id: "999999", data: { available: false } },
+      { op: "update", id: toUpdate.book.id, data: { title: "" } },
+      { op: "delete", id: toDelete.book.id },
+      { op: "delete", id: toUpdate.book.id, ifMatch: '"stale"' },
+    ];
+
+    const result = await bulkBooks(apiRequestContext, operations, token);
+    assertOk(result, "bulkBooks");
+    trackCreated(library, result.results);
+
+    expect(result.status).toBe(207);
+    expect(result.body.success).toBe(false);
+    expect(result.results.map(r => r.status)).toEqual([201, 400, 200, 404, 400, 200, 412]);
+    expect(result.body.summary).toEqual({ total: 7, succeeded: 3, failed: 4 });
+    expect(result.results[1]?.error?.message).toContain("Invalid ISBN format");
+
+    const updated = await getBookById(apiRequestContext, toUpdate.book.id);
+    assertOk(updated, "getBookById");
+    expect(updated.book.available).toBe(false);
+
+    const deleted = await getBookById(apiRequestContext, toDelete.book.id);
+    expect(deleted.status).toBe(404);
+  });
+
+  test("Verify an atomic batch with a failing item is rolled back completely", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const existing = await library.createBook(aBook().withAvailable(true).build());
+    assertOk(existing, "createBook");
+
+    const result = await bulkBooks(
+      apiRequestContext,
+      [
+        { op: "create", data: aBook().build() },
+        { op: "update", id: existing.book.id, data: { available: false } },
+        { op: "delete", id: "999999" },
+      ],
+      token,
+      { atomic: true }
+    );
+    assertFailure(result, "bulkBooks");
+    expect(result.status).toBe(409);
+    const body = validateOrThrow(BulkResultSchema, result.body, "bulkBooks 409 response");
+    expect(body.atomic).toBe(true);
+    expect(body.summary).toEqual({ total: 3, succeeded: 0, failed: 3 });
+    expect(body.results.map(r => r.status)).toEqual([424, 424, 404]);
+    expect(body.results[0]?.id).toBeUndefined();
+
+    const unchanged = await getBookById(apiRequestContext, existing.book.id);
+    assertOk(unchanged, "getBookById");
+    expect(unchanged.book).toEqual(existing.book);
+    expect(unchanged.etag).toBe(existing.etag);
+  });
+
+  test("Verify an atomic batch without failures is applied", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const existing = await library.createBook(aBook().build());
+    assertOk(existing, "createBook");
+
+    const result = await bulkBooks(
+      apiRequestContext,
+      [
+        { op: "create", data: aBook().build() },
+        { op: "update", id: existing.book.id, data: { title: "Atomic Title" }, ifMatch: existing.etag ?? "" },
+      ],
+      token,
+      { atomic: true }
+    );
+    assertOk(result, "bulkBooks");
+    trackCreated(library, result.results);
+    expect(result.status).toBe(200);
+    expect(result.results[1]?.data?.title).toBe("Atomic Title");
+  });
+
+  test("Verify delete items require the admin role while creates succeed for a librarian", async ({
+    asRole,
+    library,
+  }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const existing = await library.createBook(aBook().build());
+    assertOk(existing, "createBook");
+
+    const result = await bulkBooks(
+      apiRequestContext,
+      [
+        { op: "create", data: aBook().build() },
+        { op: "delete", id: existing.book.id },
+      ],
+      await asRole("librarian")
+    );
+    assertOk(result, "bulkBooks");
+    trackCreated(library, result.results);
+    expect(result.results.map(r => r.status)).toEqual([201, 403]);
+  });
+
+  test("Verify a malformed item rejects an atomic batch before any operation runs", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const existing = await library.createBook(aBook().build());
+    assertOk(existing, "createBook");
+
+    const operations = [
+      { op: "delete", id: existing.book.id },
+      { op: "update", id: existing.book.id, data: { available: false }, ifMatch: 5 },
+    ];
+    // Cast: ifMatch is deliberately not a string
+    const result = await bulkBooks(apiRequestContext, operations as unknown as BulkOperation[], token, {
+      atomic: true,
+    });
+    assertFailure(result, "bulkBooks");
+    expect(result.status).toBe(400);
+
+    const unchanged = await getBookById(apiRequestContext, existing.book.id);
+    assertOk(unchanged, "getBookById");
+    expect(unchanged.book).toEqual(existing.book);
+  });
+
+  for (const [name, operations] of [
+    ["an empty batch", []],
+    ["an unknown operation", [{ op: "upsert", data: {} }]],
+    ["an update without id", [{ op: "update", data: { available: false } }]],
+    ["a non-string ifMatch", [{ op: "update", id: "1", data: { available: false }, ifMatch: 5 }]],
+    ["a non-object data", [{ op: "create", data: ["title"] }]],
+  ] as const) {
+    test(`Verify ${name} is rejected with 400`, async ({ token }) => {
+      if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+      // Cast: these batches are deliberately outside BulkOperation
+      const result = await bulkBooks(apiRequestContext, operations as unknown as BulkOperation[], token);
+      assertFailure(result, "bulkBooks");
+      expect(result.status).toBe(400);
+      validateOrThrow(BadRequestErrorSchema, result.body, "bulkBooks 400 response");
+    });
+  }
+});
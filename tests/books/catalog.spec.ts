@@ -0,0 +1,158 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect, type Library } from "../../src/fixtures/library.fixture";
+import {
+  exportBooks,
+  exportBooksCsv,
+  importBooks,
+  listBooks,
+  rawRequest,
+} from "../../src/services/books.service";
+import type { Book } from "../../src/schemas/book.schema";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import { defaultRandom } from "../../src/utils/random";
+import { booksToCsv, serializeCsv } from "../../src/utils/csv";
+import { ImportRowsErrorSchema } from "../../src/schemas/catalog.schema";
+import { UnsupportedMediaTypeErrorSchema } from "../../src/schemas/error.schema";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
+
+/** Everything but the server-assigned id, for comparing imported copies. */
+const withoutId = ({ id: _id, ...rest }: Book) => rest;
+
+/** Registers imported books for cleanup. */
+function trackAll(library: Library, books: readonly Book[]): void {
+  for (const book of books) library.track(book.id);
+}
+
+test.describe("Catalog import/export", () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify the JSON and CSV exports contain the same books", async ({ library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().withTitle('Export, "Quoted"\nTitle').build());
+    assertOk(created, "createBook");
+
+    const json = await exportBooks(apiRequestContext);
+    const csv = await exportBooksCsv(apiRequestContext);
+    assertOk(json, "exportBooks");
+    assertOk(csv, "exportBooksCsv");
+
+    expect(csv.body.split("\r\n")[0]).toBe("id,title,author,isbn,publishedYear,available");
+    const find = (books: Book[]) => books.find(book => book.id === created.book.id);
+    expect(find(json.books)).toEqual(created.book);
+    expect(find(csv.books)).toEqual(created.book);
+  });
+
+  test("Verify a CSV export imported back recreates the same books", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const author = `Catalog Author ${defaultRandom().digits(8)}`;
+    for (const title of ["Plain", "With, comma", 'With "quotes"', "Multi\nline"]) {
+      const created = await library.createBook(aBook().withAuthor(author).withTitle(title).build());
+      assertOk(created, "createBook");
+    }
+
+    const exported = await exportBooksCsv(apiRequestContext);
+    assertOk(exported, "exportBooksCsv");
+    const originals = exported.books.filter(book => book.author === author);
+    expect(originals).toHaveLength(4);
+
+    const imported = await importBooks(apiRequestContext, booksToCsv(originals), token);
+    assertOk(imported, "importBooks");
+    trackAll(library, imported.books);
+
+    expect(imported.status).toBe(201);
+    expect(imported.body.count).toBe(4);
+    expect(imported.books.map(withoutId)).toEqual(originals.map(withoutId));
+    expect(imported.books.map(book => book.id)).not.toEqual(originals.map(book => book.id));
+
+    const listed = await listBooks(apiRequestContext, { author });
+    assertOk(listed, "listBooks");
+    expect(listed.body.pagination.total).toBe(8);
+  });
+
+  test("Verify a JSON array of payloads is imported", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const payloads = [aBook().build(), aBook().withoutField("publishedYear").build()];
+
+    const imported = await importBooks(apiRequestContext, payloads, token);
+    assertOk(imported, "importBooks");
+    trackAll(library, imported.books);
+
+    expect(imported.books[0]).toMatchObject(payloads[0] ?? {});
+    expect(imported.books[1]).toMatchObject(payloads[1] ?? {});
+  });
+
+  test("Verify invalid rows are reported by row number and nothing is imported", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const author = `Catalog Author ${defaultRandom().digits(8)}`;
+    const valid = aBook().withAuthor(author).build();
+    const csv = serializeCsv([
+      ["title", "author", "isbn", "publishedYear", "available"],
+      [valid.title, valid.author, valid.isbn, valid.publishedYear, valid.available],
+      ["Bad ISBN", author, "978", 2000, true],
+      ["Bad Year", author, valid.isbn, 999, true],
+      ["", author, valid.isbn, 2000, true],
+      ["Bad Flag", author, valid.isbn, 2000, "maybe"],
+    ]);
+
+    const result = await importBooks(apiRequestContext, csv, token);
+    assertFailure(result, "importBooks");
+    expect(result.status).toBe(400);
+    const body = validateOrThrow(ImportRowsErrorSchema, result.body, "importBooks 400 response");
+    expect(body.errors.map(e => e.row)).toEqual([2, 3, 4, 5]);
+    expect(body.errors[0]?.message).toContain("Invalid ISBN format");
+    expect(body.errors[1]?.message).toContain("Invalid publishedYear");
+    expect(body.errors[2]?.message).toContain("Missing required fields");
+    expect(body.errors[3]?.message).toContain("Invalid available");
+
+    const listed = await listBooks(apiRequestContext, { author });
+    assertOk(listed, "listBooks");
+    expect(listed.body.pagination.total).toBe(0);
+  });
+
+  test("Verify a CSV without a required column is rejected", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const result = await importBooks(apiRequestContext, "title,author\r\nNo ISBN,Someone\r\n", token);
+    assertFailure(result, "importBooks");
+    expect(result.status).toBe(400);
+    expect(result.body.message).toBe("Missing CSV column(s): isbn");
+  });
+
+  test("Verify an unsupported export format or import content type is rejected", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const exported = await rawRequest(apiRequestContext, "get", "/books/export?format=xml");
+    expect(exported.status).toBe(400);
+
+    const imported = await rawRequest(apiRequestContext, "post", "/books/import", {
+      data: "<books/>",
+      token,
+      headers: { "Content-Type": "application/xml" },
+    });
+    expect(imported.status).toBe(415);
+    validateOrThrow(UnsupportedMediaTypeErrorSchema, imported.body, "importBooks 415 response");
+  });
+
+  test("Verify importing requires authentication", async () => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const result = await importBooks(apiRequestContext, [aBook().build()]);
+    assertFailure(result, "importBooks");
+    expect(result.status).toBe(401);
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import {
+  deleteBook,
+  getBookById,
+  patchBook,
+  updateBook,
+} from "../../src/services/books.service";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import { PreconditionFailedErrorSchema } from "../../src/schemas/error.schema";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
+
+test.describe("Optimistic concurrency - ETag / If-Match", () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify every write returns a new ETag that GET then reports", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+    expect(created.etag).toBeTruthy();
+
+    const fetched = await getBookById(apiRequestContext, created.book.id);
+    assertOk(fetched, "getBookById");
+    expect(fetched.etag).toBe(created.etag);
+
+    const updated = await updateBook(apiRequestContext, created.book.id, { available: false }, token);
+    assertOk(updated, "updateBook");
+    const patched = await patchBook(apiRequestContext, created.book.id, { available: true }, token);
+    assertOk(patched, "patchBook");
+    expect(new Set([created.etag, updated.etag, patched.etag]).size).toBe(3);
+
+    const refetched = await getBookById(apiRequestContext, created.book.id);
+    assertOk(refetched, "getBookById");
+    expect(refetched.etag).toBe(patched.etag);
+  });
+
+  test("Verify a second writer with a stale ETag gets 412 instead of losing the first update", async ({
+    token,
+    library,
+  }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+
+    // Both writers read the same version
+    const [alice, bob] = await Promise.all([
+      getBookById(apiRequestContext, created.book.id),
+      getBookById(apiRequestContext, created.book.id),
+    ]);
+    assertOk(alice, "getBookById");
+    assertOk(bob, "getBookById");
+    expect(alice.etag).toBe(bob.etag);
+
+    const first = await updateBook(
+      apiRequestContext,
+      created.book.id,
+      { title: "Alice's Title" },
+      token,
+      { ifMatch: alice.etag }
+    );
+    assertOk(first, "updateBook");
+
+    const second = await updateBook(
+      apiRequestContext,
+      created.book.id,
+      { title: "Bob's Title" },
+      token,
+      { ifMatch: bob.etag }
+    );
+    assertFailure(second, "updateBook");
+    expect(second.status).toBe(412);
+    validateOrThrow(PreconditionFailedErrorSchema, second.body, "updateBook 412 response");
+
+    const current = await getBookById(apiRequestContext, created.book.id);
+    assertOk(current, "getBookById");
+    expect(current.book.title).toBe("Alice's Title");
+    expect(current.etag).toBe(first.etag);
+  });
+
+  test("Verify PATCH with a stale ETag is rejected and leaves the book unchanged", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().withAvailable(true).build());
+    assertOk(created, "createBook");
+
+    const updated = await updateBook(apiRequestContext, created.book.id, { available: false }, token);
+    assertOk(updated, "updateBook");
+
+    const stale = await patchBook(
+      apiRequestContext,
+      created.book.id,
+      { available: true },
+      token,
+      { ifMatch: created.etag }
+    );
+    assertFailure(stale, "patchBook");
+    expect(stale.status).toBe(412);
+
+    const current = await getBookById(apiRequestContext, created.book.id);
+    assertOk(current, "getBookById");
+    expect(current.book.available).toBe(false);
+  });
+
+  test("Verify DELETE honors If-Match", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+    const updated = await updateBook(apiRequestContext, created.book.id, { available: false }, token);
+    assertOk(updated, "updateBook");
+
+    const stale = await deleteBook(apiRequestContext, created.book.id, token, { ifMatch: created.etag });
+    assertFailure(stale, "deleteBook");
+    expect(stale.status).toBe(412);
+    const stillThere = await getBookById(apiRequestContext, created.book.id);
+    expect(stillThere.status).toBe(200);
+
+    const current = await deleteBook(apiRequestContext, created.book.id, token, { ifMatch: updated.etag });
+    assertOk(current, "deleteBook");
+    expect(current.deletedId).toBe(created.book.id);
+  });
+
+  test("Verify If-Match: * and a list containing the current ETag both match", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+
+    const wildcard = await updateBook(apiRequestContext, created.book.id, { available: false }, token, {
+      ifMatch: "*",
+    });
+    assertOk(wildcard, "updateBook");
+
+    const list = await patchBook(apiRequestContext, created.book.id, { available: true }, token, {
+      ifMatch: `"stale", ${wildcard.etag}`,
+    });
+    assertOk(list, "patchBook");
+  });
+
+  test("Verify writes without If-Match are unconditional", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+
+    const first = await updateBook(apiRequestContext, created.book.id, { title: "First" }, token);
+    const second = await updateBook(apiRequestContext, created.book.id, { title: "Second" }, token);
+    assertOk(first, "updateBook");
+    assertOk(second, "updateBook");
+    expect(second.book.title).toBe("Second");
+  });
+});
@@ -2,19 +2,22 @@ import {
   request as playwrightRequest,
   type APIRequestContext,
 } from "@playwright/test";
-import { test, expect } from "../../src/fixtures/auth.fixture";
-import { createBook, deleteBook, getBookById } from "../../src/services/books.service";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import { deleteBook, getBookById } from "../../src/services/books.service";
 import type { CreateBookPayload } from "../../src/types/book.dto";
-import { BASE_URL } from "../../src/utils/env";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
 import { BookSchema, BookResponseSchema } from "../../src/schemas/book.schema";
+import { NotFoundErrorSchema } from "../../src/schemas/error.schema";
 import { validateOrThrow } from "../../src/utils/schema-helpers";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
 
 test.describe("Delete Book", () => {
   let apiRequestContext: APIRequestContext | null;
 
   test.beforeAll(async () => {
     apiRequestContext = await playwrightRequest.newContext({
-      baseURL: BASE_URL,
+      baseURL: config.baseURL,
     });
   });
 
@@ -22,21 +25,16 @@ test.describe("Delete Book", () => {
     if (apiRequestContext) await apiRequestContext.dispose();
   });
 
-  test("Verify new book gets deleted successfully", async ({ token }) => {
+  test("Verify new book gets deleted successfully", async ({ token, library }) => {
     if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
 
     // 1) create
-    const payload: CreateBookPayload = {
-      title: `Delete positive - ${Date.now()}`,
-      author: "Delete Author",
-      isbn: "333-3333333333",
-      publishedYear: 2015,
-      available: true,
-    };
+    const payload: CreateBookPayload = aBook().build();
 
-    const createResult = await createBook(apiRequestContext, payload, token);
+    const createResult = await library.createBook(payload);
     expect(createResult.ok).toBeTruthy();
     expect(createResult.status).toBe(201);
+    assertOk(createResult, "createBook");
     validateOrThrow(BookResponseSchema, createResult.body, "createBook response");
     const created = BookSchema.parse(createResult.body.data);
     const createdId = created.id;
@@ -45,6 +43,7 @@ test.describe("Delete Book", () => {
     const getResult = await getBookById(apiRequestContext, createdId);
     expect(getResult.ok).toBeTruthy();
     expect(getResult.status).toBe(200);
+    assertOk(getResult, "getBookById");
     expect(getResult.body.data.id.toString()).toBe(createdId.toString());
     expect(getResult.body.data).toMatchObject(payload);
 
@@ -54,6 +53,7 @@ test.describe("Delete Book", () => {
     // Keep assertions consistent with the curl example / expected response
     expect(deleteResult.ok).toBeTruthy();
     expect(deleteResult.status).toBe(200);
+    assertOk(deleteResult, "deleteBook");
     expect(deleteResult.body).toMatchObject({
       success: true,
       message: "Book deleted successfully",
@@ -64,9 +64,9 @@ test.describe("Delete Book", () => {
     const getAfterDelete = await getBookById(apiRequestContext, createdId);
     expect(getAfterDelete.ok).toBeFalsy();
     expect(getAfterDelete.status).toBe(404);
-    expect(getAfterDelete.body).toBeTruthy();
-    expect(getAfterDelete.body.error).toBe("Not Found");
-    expect(getAfterDelete.body.message).toMatch(new RegExp(String(createdId)));
+    assertFailure(getAfterDelete, "getBookById after delete");
+    const notFound = validateOrThrow(NotFoundErrorSchema, getAfterDelete.body, "getBookById after delete");
+    expect(notFound.message).toMatch(new RegExp(String(createdId)));
   });
 
   test("Verify non existent book deletion returns 404 error", async ({ token }) => {
@@ -77,6 +77,7 @@ test.describe("Delete Book", () => {
 
     expect(deleteResult.ok).toBeFalsy();
     expect(deleteResult.status).toBe(404);
+    assertFailure(deleteResult, "deleteBook for non existent id");
     expect(deleteResult.body).toBeTruthy();
 
     expect(deleteResult.body).toMatchObject({
@@ -6,18 +6,23 @@ import {
 import { test, expect } from "../../src/fixtures/auth.fixture";
 import {
   createBook,
-  patchBook,
   rawRequest,
 } from "../../src/services/books.service";
 import type { CreateBookPayload } from "../../src/types/book.dto";
-import { BASE_URL } from "../../src/utils/env";
+import { config } from "../../src/utils/config";
+import { assertFailure } from "../../src/utils/result-helpers";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import {
+  InvalidTokenErrorSchema,
+  RouteNotFoundErrorSchema,
+} from "../../src/schemas/error.schema";
 
 test.describe("Error handling - API edge cases", () => {
   let apiRequestContext: APIRequestContext | null;
 
   test.beforeAll(async () => {
     apiRequestContext = await playwrightRequest.newContext({
-      baseURL: BASE_URL,
+      baseURL: config.baseURL,
     });
   });
 
@@ -31,10 +36,9 @@ test.describe("Error handling - API edge cases", () => {
 
     const result = await rawRequest(apiRequestContext, "get", "/invalid");
     expect(result.status).toBe(404);
-    expect(result.body).toBeTruthy();
-    expect(result.body.error).toBe("Not Found");
-    expect(result.body.message).toContain("Cannot GET");
-    expect(Array.isArray(result.body.availableEndpoints)).toBe(true);
+    assertFailure(result, "GET /invalid");
+    const body = validateOrThrow(RouteNotFoundErrorSchema, result.body, "GET /invalid");
+    expect(body.message).toContain("Cannot GET");
   });
 
   test("Verify invalid token returns 401 Invalid or expired token", async () => {
@@ -53,28 +57,31 @@ test.describe("Error handling - API edge cases", () => {
       "invalid-token"
     );
     expect(invalidTokenResult.status).toBe(401);
-    expect(invalidTokenResult.body.error).toBe("Invalid or expired token");
+    assertFailure(invalidTokenResult, "createBook with invalid token");
+    const body = validateOrThrow(
+      InvalidTokenErrorSchema,
+      invalidTokenResult.body,
+      "createBook with invalid token"
+    );
     expect(
-      invalidTokenResult.body.message,
+      body.message,
       "Expect response to have jwt malformed"
     ).toContain("jwt malformed");
   });
 
-  test("Verify invalid HTTP method (PATCH) returns 404/Not Found for unsupported method", async ({
+  test("Verify unsupported HTTP method returns 404 Not Found with availableEndpoints", async ({
     token,
   }) => {
     if (!apiRequestContext)
       throw new Error("apiRequestContext not initialized");
-    const updatePayload: Partial<CreateBookPayload> = { available: false };
-    const patchResult = await patchBook(
-      apiRequestContext,
-      "1",
-      updatePayload,
-      token
-    );
-    expect(patchResult).toBeTruthy();
-    expect(patchResult.status).toBe(404);
-    expect(patchResult.body.error).toBe("Not Found");
-    expect(patchResult.body.message).toContain("Cannot PATCH /books/");
+    // PATCH is only supported on /books/:id, not on the collection
+    const result = await rawRequest(apiRequestContext, "patch", "/books", {
+      data: { available: false },
+      token,
+    });
+    expect(result.status).toBe(404);
+    assertFailure(result, "PATCH /books");
+    const body = validateOrThrow(RouteNotFoundErrorSchema, result.body, "PATCH /books");
+    expect(body.message).toContain("Cannot PATCH /books");
   });
 });
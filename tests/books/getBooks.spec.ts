@@ -0,0 +1,143 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect, type Library } from "../../src/fixtures/library.fixture";
+import { iterateBooks, listBooks } from "../../src/services/books.service";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import { defaultRandom } from "../../src/utils/random";
+import { BadRequestErrorSchema } from "../../src/schemas/error.schema";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
+
+const YEARS = [1990, 1991, 1992, 1993, 1994];
+
+/**
+ * Creates one book per year in `YEARS` under an author no other test uses,
+ * so filtering by that author isolates this test from parallel workers.
+ */
+async function seedShelf(library: Library): Promise<string> {
+  const author = `Shelf Author ${defaultRandom().digits(8)}`;
+  for (const [index, year] of YEARS.entries()) {
+    const result = await library.createBook(
+      aBook().withAuthor(author).withPublishedYear(year).withAvailable(index % 2 === 0).build()
+    );
+    assertOk(result, "createBook");
+  }
+  return author;
+}
+
+test.describe("List Books", () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify listing without a limit returns every book with pagination metadata", async () => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const result = await listBooks(apiRequestContext);
+    assertOk(result, "listBooks");
+    expect(result.status).toBe(200);
+    expect(result.body.count).toBe(result.books.length);
+    expect(result.body.pagination).toMatchObject({
+      offset: 0,
+      limit: null,
+      hasMore: false,
+      total: result.books.length,
+    });
+  });
+
+  test("Verify the list holds exactly the seed catalog and the books the test created", async ({ library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    test.skip(config.features.tenantIsolation !== "test", "needs a store of its own (TENANT_ISOLATION=test)");
+
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+
+    const result = await listBooks(apiRequestContext);
+    assertOk(result, "listBooks");
+    expect(result.body.count).toBe(8);
+    expect(result.books.at(-1)).toEqual(created.book);
+  });
+
+  test("Verify limit and offset return consecutive pages", async ({ library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const author = await seedShelf(library);
+
+    const first = await listBooks(apiRequestContext, { author, sort: "publishedYear:asc", limit: 2 });
+    assertOk(first, "listBooks page 1");
+    expect(first.books.map(b => b.publishedYear)).toEqual([1990, 1991]);
+    expect(first.body.pagination).toEqual({ total: 5, offset: 0, limit: 2, hasMore: true });
+
+    const last = await listBooks(apiRequestContext, { author, sort: "publishedYear:asc", limit: 2, offset: 4 });
+    assertOk(last, "listBooks page 3");
+    expect(last.books.map(b => b.publishedYear)).toEqual([1994]);
+    expect(last.body.pagination).toEqual({ total: 5, offset: 4, limit: 2, hasMore: false });
+  });
+
+  test("Verify filters by availability and published year range combine", async ({ library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const author = await seedShelf(library);
+
+    const result = await listBooks(apiRequestContext, {
+      author: author.toUpperCase(),
+      available: true,
+      publishedYearMin: 1991,
+      publishedYearMax: 1994,
+      sort: "publishedYear",
+    });
+    assertOk(result, "listBooks");
+    expect(result.books.map(b => b.publishedYear)).toEqual([1992, 1994]);
+    expect(result.books.every(b => b.author === author && b.available)).toBe(true);
+    expect(result.body.pagination.total).toBe(2);
+  });
+
+  test("Verify sorting in descending order", async ({ library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const author = await seedShelf(library);
+
+    const result = await listBooks(apiRequestContext, { author, sort: "publishedYear:desc" });
+    assertOk(result, "listBooks");
+    expect(result.books.map(b => b.publishedYear)).toEqual([...YEARS].reverse());
+  });
+
+  test("Verify iterating all pages yields every matching book exactly once", async ({ library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const author = await seedShelf(library);
+
+    const ids: string[] = [];
+    for await (const book of iterateBooks(apiRequestContext, { author, sort: "id" }, 2)) {
+      ids.push(book.id);
+    }
+
+    expect(ids).toHaveLength(YEARS.length);
+    expect([...ids].sort()).toEqual([...library.createdIds].sort());
+  });
+
+  for (const [name, query] of [
+    ["limit of zero", { limit: 0 }],
+    ["limit above the maximum", { limit: 101 }],
+    ["negative offset", { offset: -1 }],
+    ["unknown sort field", { sort: "isbn:asc" }],
+    ["unknown sort direction", { sort: "title:up" }],
+  ] as const) {
+    test(`Verify a ${name} is rejected with 400`, async () => {
+      if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+      // Cast: the typed query deliberately excludes some of these values
+      const result = await listBooks(apiRequestContext, query as object);
+      assertFailure(result, "listBooks");
+      expect(result.status).toBe(400);
+      validateOrThrow(BadRequestErrorSchema, result.body, "listBooks 400 response");
+    });
+  }
+});
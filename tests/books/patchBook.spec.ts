@@ -0,0 +1,158 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import { getBookById, patchBook, rawRequest } from "../../src/services/books.service";
+import type { BookMergePatch } from "../../src/types/book.dto";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import { BookResponseSchema } from "../../src/schemas/book.schema";
+import {
+  BadRequestErrorSchema,
+  NotFoundErrorSchema,
+  UnsupportedMediaTypeErrorSchema,
+} from "../../src/schemas/error.schema";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
+
+test.describe("Patch Book", () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify patching one field leaves every other field unchanged", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().withAvailable(true).build());
+    assertOk(created, "createBook");
+
+    const result = await patchBook(apiRequestContext, created.book.id, { available: false }, token);
+    assertOk(result, "patchBook");
+    expect(result.status).toBe(200);
+    validateOrThrow(BookResponseSchema, result.body, "patchBook response");
+    expect(result.body.message).toBe("Book patched successfully");
+    expect(result.book).toEqual({ ...created.book, available: false });
+
+    const fetched = await getBookById(apiRequestContext, created.book.id);
+    assertOk(fetched, "getBookById");
+    expect(fetched.book).toEqual(result.book);
+  });
+
+  test("Verify null removes the isbn and publishedYear fields", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+
+    const result = await patchBook(
+      apiRequestContext,
+      created.book.id,
+      { isbn: null, publishedYear: null },
+      token
+    );
+    assertOk(result, "patchBook");
+    expect(result.book).not.toHaveProperty("isbn");
+    expect(result.book).not.toHaveProperty("publishedYear");
+    expect(result.book).toMatchObject({ title: created.book.title, author: created.book.author });
+
+    const fetched = await getBookById(apiRequestContext, created.book.id);
+    assertOk(fetched, "getBookById");
+    expect(fetched.book).not.toHaveProperty("isbn");
+  });
+
+  test("Verify an empty patch returns the book unchanged", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+
+    const result = await patchBook(apiRequestContext, created.book.id, {}, token);
+    assertOk(result, "patchBook");
+    expect(result.book).toEqual(created.book);
+  });
+
+  test("Verify a plain application/json body is also accepted as a merge patch", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+
+    const result = await rawRequest(apiRequestContext, "patch", `/books/${created.book.id}`, {
+      data: { title: "Patched Title" },
+      token,
+    });
+    expect(result.status).toBe(200);
+    const body = validateOrThrow(BookResponseSchema, result.body, "patchBook response");
+    expect(body.data.title).toBe("Patched Title");
+  });
+
+  for (const [name, patch, message] of [
+    ["null title", { title: null }, "Field 'title' cannot be removed"],
+    ["null available", { available: null }, "Field 'available' cannot be removed"],
+    ["empty author", { author: "" }, "Invalid author"],
+    ["invalid isbn", { isbn: "978" }, "Invalid ISBN format"],
+    ["out of range publishedYear", { publishedYear: 999 }, "Invalid publishedYear"],
+    ["non-boolean available", { available: "yes" }, "Invalid available"],
+    ["unknown field", { subtitle: "Second Edition" }, "Unknown field 'subtitle'"],
+    ["id change", { id: "1" }, "Unknown field 'id'"],
+  ] as const) {
+    test(`Verify a patch with ${name} is rejected with 400`, async ({ token, library }) => {
+      if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+      const created = await library.createBook(aBook().build());
+      assertOk(created, "createBook");
+
+      // Cast: these patches are deliberately outside BookMergePatch
+      const result = await patchBook(apiRequestContext, created.book.id, patch as BookMergePatch, token);
+      assertFailure(result, "patchBook");
+      expect(result.status).toBe(400);
+      const body = validateOrThrow(BadRequestErrorSchema, result.body, "patchBook 400 response");
+      expect(body.message).toContain(message);
+
+      const fetched = await getBookById(apiRequestContext, created.book.id);
+      assertOk(fetched, "getBookById");
+      expect(fetched.book).toEqual(created.book);
+    });
+  }
+
+  test("Verify a JSON array body is rejected with 400", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+
+    const result = await rawRequest(apiRequestContext, "patch", `/books/${created.book.id}`, {
+      data: [{ title: "Patched Title" }],
+      token,
+    });
+    expect(result.status).toBe(400);
+    const body = validateOrThrow(BadRequestErrorSchema, result.body, "patchBook 400 response");
+    expect(body.message).toBe("Merge patch must be a JSON object");
+  });
+
+  test("Verify a non-JSON content type is rejected with 415", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+
+    const result = await rawRequest(apiRequestContext, "patch", `/books/${created.book.id}`, {
+      data: "title=Patched",
+      token,
+      headers: { "Content-Type": "text/plain" },
+    });
+    expect(result.status).toBe(415);
+    validateOrThrow(UnsupportedMediaTypeErrorSchema, result.body, "patchBook 415 response");
+  });
+
+  test("Verify patching a non-existent book returns 404", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const result = await patchBook(apiRequestContext, "999999", { available: false }, token);
+    assertFailure(result, "patchBook");
+    expect(result.status).toBe(404);
+    validateOrThrow(NotFoundErrorSchema, result.body, "patchBook 404 response");
+  });
+});
@@ -2,23 +2,25 @@ import {
   request as playwrightRequest,
   type APIRequestContext,
 } from "@playwright/test";
-import { test, expect } from "../../src/fixtures/auth.fixture";
-import {
-  createBook,
-  deleteBook,
-  getBookById,
-} from "../../src/services/books.service";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import { getBookById } from "../../src/services/books.service";
 import type { CreateBookPayload } from "../../src/types/book.dto";
-import { BASE_URL } from "../../src/utils/env";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
 import { BookSchema, BookResponseSchema, PartialBookResponseSchema } from "../../src/schemas/book.schema";
 import { validateOrThrow } from "../../src/utils/schema-helpers";
+import {
+  InvalidIsbnErrorSchema,
+  MissingFieldsErrorSchema,
+} from "../../src/schemas/error.schema";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
 
 test.describe("Create Book", () => {
   let apiRequestContext: APIRequestContext | null;
 
   test.beforeAll(async () => {
     apiRequestContext = await playwrightRequest.newContext({
-      baseURL: BASE_URL,
+      baseURL: config.baseURL,
     });
   });
 
@@ -27,25 +29,20 @@ test.describe("Create Book", () => {
   });
 
   test("Create book with valid data should create a book and retrieve it by id", async ({
-    token,
+    library,
   }) => {
     if (!apiRequestContext)
       throw new Error("apiRequestContext not initialized");
 
     // 1) Prepare payload
-    const payload: CreateBookPayload = {
-      title: `Playwright Programmer - test ${Date.now()}`,
-      author: "Andy Hunt and Dave Thomas",
-      isbn: "978-0135957059",
-      publishedYear: 2023,
-      available: true,
-    };
+    const payload: CreateBookPayload = aBook().build();
 
     // 2) Create book 
-    const createResult = await createBook(apiRequestContext, payload, token);
+    const createResult = await library.createBook(payload);
 
     expect(createResult.ok).toBeTruthy();
     expect(createResult.status).toBe(201);
+    assertOk(createResult, "createBook");
     expect(createResult.body).toBeTruthy();
 
     validateOrThrow(
@@ -67,6 +64,7 @@ test.describe("Create Book", () => {
 
     expect(getResult.ok).toBeTruthy();
     expect(getResult.status).toBe(200);
+    assertOk(getResult, "getBookById");
 
     validateOrThrow(PartialBookResponseSchema, getResult.body, "getBookById response");
     const fetched = BookSchema.parse(getResult.body.data);
@@ -74,119 +72,98 @@ test.describe("Create Book", () => {
     // Check the returned shape matches expected example
     expect(fetched.id.toString()).toBe(createdId.toString());
     expect(getResult.body.data).toMatchObject(payload);
-
-    const deleteResult = await deleteBook(apiRequestContext, createdId, token);
-    expect(deleteResult.status).toBe(200);
-    expect(deleteResult.body.success).toBe(true);
-    expect(deleteResult.body.message).toBe("Book deleted successfully");
-    expect(deleteResult.body.deletedId.toString()).toBe(createdId.toString());
   });
 
   test("Create book with missing author and isbn should return Bad request", async ({
-    token,
+    library,
   }) => {
     if (!apiRequestContext)
       throw new Error("apiRequestContext not initialized");
 
     // 1) Prepare payload with missing required fields
 
-    const payload: Partial<CreateBookPayload> = {
-      title: `Incomplete Book - test ${Date.now()}`,
-      // author: missing
-      // isbn: missing
-    };
+    const payload = aBook().withoutField("author").withoutField("isbn").build();
 
     // 2) Create book (requires auth)
-    const createResult = await createBook(apiRequestContext, payload, token);
+    const createResult = await library.createBook(payload);
 
     // verify status 400
     expect(createResult.status).toBe(400);
-    expect(createResult.body).toBeTruthy();
+    assertFailure(createResult, "createBook with invalid payload");
+    const body = validateOrThrow(MissingFieldsErrorSchema, createResult.body, "createBook response");
 
-    expect(createResult.body.error).toBe("Bad Request");
-    expect(createResult.body.message).toBe(
+    expect(body.message).toBe(
       "Missing required fields: title, author, and isbn are required"
     );
+    expect(body.received).toEqual({ title: true, author: false, isbn: false });
   });
 
   test("Create book with missing title and isbn should return Bad request", async ({
-    token,
+    library,
   }) => {
     if (!apiRequestContext)
       throw new Error("apiRequestContext not initialized");
 
     // 1) Prepare payload with missing required fields
 
-    const payload: Partial<CreateBookPayload> = {
-      // title: missing,
-      author: "Andy Hunt and Dave Thomas",
-      // isbn: missing
-    };
+    const payload = aBook().withoutField("title").withoutField("isbn").build();
 
     // 2) Create book (requires auth)
-    const createResult = await createBook(apiRequestContext, payload, token);
+    const createResult = await library.createBook(payload);
 
     // verify status 400
     expect(createResult.status).toBe(400);
-    expect(createResult.body).toBeTruthy();
+    assertFailure(createResult, "createBook with invalid payload");
+    const body = validateOrThrow(MissingFieldsErrorSchema, createResult.body, "createBook response");
 
-    expect(createResult.body.error).toBe("Bad Request");
-    expect(createResult.body.message).toBe(
+    expect(body.message).toBe(
       "Missing required fields: title, author, and isbn are required"
     );
+    expect(body.received).toEqual({ title: false, author: true, isbn: false });
   });
 
   test("Create book with missing title and author should return Bad request", async ({
-    token,
+    library,
   }) => {
     if (!apiRequestContext)
       throw new Error("apiRequestContext not initialized");
 
     // 1) Prepare payload with missing required fields
 
-    const payload: Partial<CreateBookPayload> = {
-      // title: missing,
-      // author: missing
-      isbn: "978-0135957059",
-    };
+    const payload = aBook().withoutField("title").withoutField("author").build();
 
     // 2) Create book (requires auth)
-    const createResult = await createBook(apiRequestContext, payload, token);
+    const createResult = await library.createBook(payload);
 
     // verify status 400
     expect(createResult.status).toBe(400);
-    expect(createResult.body).toBeTruthy();
+    assertFailure(createResult, "createBook with invalid payload");
+    const body = validateOrThrow(MissingFieldsErrorSchema, createResult.body, "createBook response");
 
-    expect(createResult.body.error).toBe("Bad Request");
-    expect(createResult.body.message).toBe(
+    expect(body.message).toBe(
       "Missing required fields: title, author, and isbn are required"
     );
+    expect(body.received).toEqual({ title: false, author: false, isbn: true });
   });
 
   test("Create book with invalid isbn should return Bad request", async ({
-    token,
+    library,
   }) => {
     if (!apiRequestContext)
       throw new Error("apiRequestContext not initialized");
 
     // 1) Prepare payload with invalid isbn
-    const payload: CreateBookPayload = {
-      title: `Playwright Programmer - test ${Date.now()}`,
-      author: "Andy Hunt and Dave Thomas",
-      isbn: "978",
-      publishedYear: 2023,
-      available: true,
-    };
+    const payload: CreateBookPayload = aBook().invalidIsbn().build();
 
     // 2) Create book (requires auth)
-    const createResult = await createBook(apiRequestContext, payload, token);
+    const createResult = await library.createBook(payload);
 
     // verify status 400
     expect(createResult.status).toBe(400);
-    expect(createResult.body).toBeTruthy();
+    assertFailure(createResult, "createBook with invalid payload");
+    const body = validateOrThrow(InvalidIsbnErrorSchema, createResult.body, "createBook response");
 
-    expect(createResult.body.error).toBe("Bad Request");
-    expect(createResult.body.message).toBe(
+    expect(body.message).toBe(
       "Invalid ISBN format. ISBN should be 10 or 13 digits (hyphens and spaces allowed)"
     );
   });
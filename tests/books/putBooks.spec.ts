@@ -2,19 +2,22 @@ import {
   request as playwrightRequest,
   type APIRequestContext,
 } from "@playwright/test";
-import { test, expect } from "../../src/fixtures/auth.fixture";
-import { createBook, deleteBook, getBookById, updateBook } from "../../src/services/books.service";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import { getBookById, updateBook } from "../../src/services/books.service";
 import type { CreateBookPayload } from "../../src/types/book.dto";
-import { BASE_URL } from "../../src/utils/env";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
 import { BookSchema, BookResponseSchema, PartialBookSchema } from "../../src/schemas/book.schema";
 import { validateOrThrow } from "../../src/utils/schema-helpers";
+import { NotFoundErrorSchema } from "../../src/schemas/error.schema";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
 
 test.describe("Update Book", () => {
   let apiRequestContext: APIRequestContext | null;
 
   test.beforeAll(async () => {
     apiRequestContext = await playwrightRequest.newContext({
-      baseURL: BASE_URL,
+      baseURL: config.baseURL,
     });
   });
 
@@ -22,20 +25,15 @@ test.describe("Update Book", () => {
     if (apiRequestContext) await apiRequestContext.dispose();
   });
 
-  test("Verify updating the availability field of a book reflects correctly when fetched", async ({ token }) => {
+  test("Verify updating the availability field of a book reflects correctly when fetched", async ({ token, library }) => {
     if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
     // 1) create
-    const payload: CreateBookPayload = {
-      title: `Update single field - ${Date.now()}`,
-      author: "Author A",
-      isbn: "111-1111111111",
-      publishedYear: 2021,
-      available: true,
-    };
+    const payload: CreateBookPayload = aBook().withAvailable(true).build();
 
-    const createResult = await createBook(apiRequestContext, payload, token);
+    const createResult = await library.createBook(payload);
     expect(createResult.ok).toBeTruthy();
     expect(createResult.status).toBe(201);
+    assertOk(createResult, "createBook");
     validateOrThrow(BookResponseSchema, createResult.body, "createBook response");
     const created = BookSchema.parse(createResult.body.data);
     const createdId = created.id;
@@ -46,6 +44,7 @@ test.describe("Update Book", () => {
 
     expect(updateResult.ok).toBeTruthy();
     expect(updateResult.status).toBe(200);
+    assertOk(updateResult, "updateBook");
     expect(updateResult.body).toBeTruthy();
     
     validateOrThrow(PartialBookSchema, updateResult.body, "updateBook response");
@@ -60,32 +59,22 @@ test.describe("Update Book", () => {
     const getResult = await getBookById(apiRequestContext, createdId);
     expect(getResult.ok).toBeTruthy();
     expect(getResult.status).toBe(200);
+    assertOk(getResult, "getBookById");
     expect(getResult.body.data.id.toString()).toBe(createdId.toString());
     
     expect(getResult.body.data).toMatchObject(updatePayload);
 
-    // 4) delete the created book
-    const deleteResult = await deleteBook(apiRequestContext, createdId, token);
-    expect(deleteResult.status).toBe(200); 
-    expect(deleteResult.body.success).toBe(true);
-    expect(deleteResult.body.message).toBe("Book deleted successfully");  
-    expect(deleteResult.body.deletedId.toString()).toBe(createdId.toString());
   });
 
-  test("Verify updating multiple fields of a book persists all changes successfully", async ({ token }) => {
+  test("Verify updating multiple fields of a book persists all changes successfully", async ({ token, library }) => {
     if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
     // 1) create
-    const payload: CreateBookPayload = {
-      title: `Update multiple - ${Date.now()}`,
-      author: "Author B",
-      isbn: "222-2222222222",
-      publishedYear: 2010,
-      available: true,
-    };
+    const payload: CreateBookPayload = aBook().withPublishedYear(2010).withAvailable(true).build();
 
-    const createResult = await createBook(apiRequestContext, payload, token);
+    const createResult = await library.createBook(payload);
     expect(createResult.ok).toBeTruthy();
     expect(createResult.status).toBe(201);
+    assertOk(createResult, "createBook");
     validateOrThrow(BookResponseSchema, createResult.body, "createBook response (multi fields)");
     const created = BookSchema.parse(createResult.body.data);
     const createdId = created.id;
@@ -100,6 +89,7 @@ test.describe("Update Book", () => {
 
     expect(updateResult.ok).toBeTruthy();
     expect(updateResult.status).toBe(200);
+    assertOk(updateResult, "updateBook");
     expect(updateResult.body).toBeTruthy();
     
     validateOrThrow(PartialBookSchema, updateResult.body, "updateBook response");
@@ -114,16 +104,11 @@ test.describe("Update Book", () => {
     const getResult = await getBookById(apiRequestContext, createdId);
     expect(getResult.ok).toBeTruthy();
     expect(getResult.status).toBe(200);
+    assertOk(getResult, "getBookById");
     expect(getResult.body.data.id.toString()).toBe(createdId.toString());
     
     expect(getResult.body.data).toMatchObject(updatePayload);
 
-    // 4) delete the created book
-    const deleteResult = await deleteBook(apiRequestContext, createdId, token);
-    expect(deleteResult.status).toBe(200); 
-    expect(deleteResult.body.success).toBe(true);
-    expect(deleteResult.body.message).toBe("Book deleted successfully");  
-    expect(deleteResult.body.deletedId.toString()).toBe(createdId.toString());
   });
 
   test("Verify updating a non-existent book returns a 404 not-found error", async ({ token }) => {
@@ -136,9 +121,9 @@ test.describe("Update Book", () => {
 
     expect(updateResult.ok).toBeFalsy();
     expect(updateResult.status).toBe(404);
-    expect(updateResult.body).toBeTruthy();
-    expect(updateResult.body.error).toBe("Not Found");
-    expect(updateResult.body.message).toBe(`Book with ID ${nonExistentId} not found`);
-    expect(updateResult.body.message).toMatch(new RegExp(String(nonExistentId)));
+    assertFailure(updateResult, "updateBook for non existent id");
+    const body = validateOrThrow(NotFoundErrorSchema, updateResult.body, "updateBook response");
+    expect(body.message).toBe(`Book with ID ${nonExistentId} not found`);
+    expect(body.message).toMatch(new RegExp(String(nonExistentId)));
   });
 });
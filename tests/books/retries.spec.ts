@@ -0,0 +1,186 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { randomUUID } from "crypto";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import { withFaults } from "../../src/services/admin.service";
+import { deleteBook, getBookById, listBooks, patchBook, updateBook } from "../../src/services/books.service";
+import { withRetryPolicy } from "../../src/clients/retry";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
+
+// No waiting between attempts unless a test asks for it
+const FAST = { backoff: "fixed", baseDelayMs: 0, jitter: 0 } as const;
+
+// Retries are provoked with server-wide faults, so these run in the "store" project
+test.describe("Client retries", { tag: "@store" }, () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify a GET is retried through transient 503s and every attempt is recorded", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    const result = await withFaults(api, { rules: [{ path: "/books/:id", status: 503, times: 2 }] }, token, () =>
+      withRetryPolicy({ ...FAST, maxAttempts: 3 }, () => getBookById(api, "1"))
+    );
+
+    assertOk(result, "getBookById");
+    expect(result.attempts.map(a => a.status)).toEqual([503, 503, 200]);
+    expect(result.attempts.map(a => a.delayMs)).toEqual([0, 0, undefined]);
+  });
+
+  test("Verify the last failure is returned once maxAttempts is reached", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    const result = await withFaults(api, { rules: [{ path: "/books", status: 503 }] }, token, () =>
+      withRetryPolicy({ ...FAST, maxAttempts: 4 }, () => listBooks(api))
+    );
+
+    assertFailure(result, "listBooks");
+    expect(result.status).toBe(503);
+    expect(result.attempts).toHaveLength(4);
+  });
+
+  test("Verify statuses outside the retryable set are not retried", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    const result = await withFaults(api, { rules: [{ path: "/books/:id", status: 500, times: 1 }] }, token, () =>
+      withRetryPolicy(FAST, () => getBookById(api, "1"))
+    );
+
+    assertFailure(result, "getBookById");
+    expect(result.status).toBe(500);
+    expect(result.attempts).toHaveLength(1);
+  });
+
+  test("Verify a DELETE is not retried after a 502 that may hide an applied delete", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+
+    const result = await withFaults(
+      api,
+      { rules: [{ method: "DELETE", path: "/books/:id", status: 502, times: 1 }] },
+      token,
+      () => withRetryPolicy(FAST, () => deleteBook(api, created.book.id, token))
+    );
+
+    assertFailure(result, "deleteBook");
+    expect(result.attempts).toHaveLength(1);
+  });
+
+  test("Verify a DELETE is not retried after a dropped connection", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+    const created = await library.createBook(aBook().build());
+    assertOk(created, "createBook");
+
+    await withFaults(api, { rules: [{ method: "DELETE", path: "/books/:id", drop: true, times: 1 }] }, token, async () => {
+      await expect(withRetryPolicy(FAST, () => deleteBook(api, created.book.id, token))).rejects.toThrow(
+        /DELETE \/books\/\d+ failed after 1 attempt\(s\)/
+      );
+    });
+  });
+
+  test("Verify a conditional PUT or PATCH is not replayed after a 502, unlike an unconditional one", async ({
+    token,
+    library,
+  }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+    const created = await library.createBook(aBook().withAvailable(true).build());
+    assertOk(created, "createBook");
+    const ifMatch = created.etag ?? "";
+    const badGateway = (method: "PUT" | "PATCH") => ({
+      rules: [{ method, path: "/books/:id", status: 502, times: 1 }],
+    });
+
+    const put = await withFaults(api, badGateway("PUT"), token, () =>
+      withRetryPolicy(FAST, () => updateBook(api, created.book.id, { available: false }, token, { ifMatch }))
+    );
+    assertFailure(put, "updateBook");
+    expect(put.attempts.map(a => a.status)).toEqual([502]);
+
+    const patch = await withFaults(api, badGateway("PATCH"), token, () =>
+      withRetryPolicy(FAST, () => patchBook(api, created.book.id, { available: false }, token, { ifMatch }))
+    );
+    assertFailure(patch, "patchBook");
+    expect(patch.attempts.map(a => a.status)).toEqual([502]);
+
+    const unconditional = await withFaults(api, badGateway("PUT"), token, () =>
+      withRetryPolicy(FAST, () => updateBook(api, created.book.id, { available: false }, token))
+    );
+    assertOk(unconditional, "updateBook");
+    expect(unconditional.attempts.map(a => a.status)).toEqual([502, 200]);
+  });
+
+  test("Verify a POST is only retried when it carries an idempotency key", async ({ token, library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+    const faults = { rules: [{ method: "POST" as const, path: "/books", status: 503, times: 1 }] };
+
+    const withoutKey = await withFaults(api, faults, token, () =>
+      withRetryPolicy(FAST, () => library.createBook(aBook().build()))
+    );
+    assertFailure(withoutKey, "createBook");
+    expect(withoutKey.attempts).toHaveLength(1);
+
+    const withKey = await withFaults(api, faults, token, () =>
+      withRetryPolicy(FAST, () => library.createBook(aBook().build(), { idempotencyKey: randomUUID() }))
+    );
+    assertOk(withKey, "createBook");
+    expect(withKey.attempts.map(a => a.status)).toEqual([503, 201]);
+  });
+
+  test("Verify Retry-After sets the delay and one above maxDelayMs stops retrying", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+    const faults = { rules: [{ path: "/books/:id", status: 429, retryAfter: 1, times: 1 }] };
+
+    const honoured = await withFaults(api, faults, token, () =>
+      withRetryPolicy({ ...FAST, maxDelayMs: 2000 }, () => getBookById(api, "1"))
+    );
+    assertOk(honoured, "getBookById");
+    expect(honoured.attempts[0]?.delayMs).toBe(1000);
+    expect(honoured.attempts[1]?.status).toBe(200);
+
+    const tooLong = await withFaults(api, faults, token, () =>
+      withRetryPolicy({ ...FAST, maxDelayMs: 500 }, () => getBookById(api, "1"))
+    );
+    assertFailure(tooLong, "getBookById");
+    expect(tooLong.status).toBe(429);
+    expect(tooLong.attempts).toHaveLength(1);
+  });
+
+  test("Verify dropped connections are retried and reported when every attempt fails", async ({ token }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    const recovered = await withFaults(api, { rules: [{ path: "/books/:id", drop: true, times: 1 }] }, token, () =>
+      withRetryPolicy(FAST, () => getBookById(api, "1"))
+    );
+    assertOk(recovered, "getBookById");
+    expect(recovered.attempts[0]?.error).toBeTruthy();
+
+    await withFaults(api, { rules: [{ path: "/books/:id", drop: true }] }, token, async () => {
+      await expect(withRetryPolicy({ ...FAST, maxAttempts: 2 }, () => getBookById(api, "1"))).rejects.toThrow(
+        /GET \/books\/1 failed after 2 attempt\(s\)/
+      );
+    });
+  });
+});
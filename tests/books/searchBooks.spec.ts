@@ -0,0 +1,96 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import { searchBooks } from "../../src/services/books.service";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import { defaultRandom } from "../../src/utils/random";
+import { BadRequestErrorSchema } from "../../src/schemas/error.schema";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
+
+/** A word no seeded or generated book contains. */
+const uniqueTerm = () => `zq${defaultRandom().digits(8)}`;
+
+test.describe("Search Books", () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify hits are ranked by how many terms match and in which field", async ({ library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const [first, second] = [uniqueTerm(), uniqueTerm()];
+
+    const both = await library.createBook(aBook().withTitle(`Atlas ${first} ${second}`).build());
+    const titleOnly = await library.createBook(aBook().withTitle(`Atlas ${first}`).build());
+    const authorOnly = await library.createBook(aBook().withAuthor(`${second} Writer`).build());
+    assertOk(both, "createBook");
+    assertOk(titleOnly, "createBook");
+    assertOk(authorOnly, "createBook");
+
+    const result = await searchBooks(apiRequestContext, `${first} ${second}`);
+    assertOk(result, "searchBooks");
+    expect(result.status).toBe(200);
+    expect(result.body.count).toBe(3);
+    expect(result.hits.map(hit => hit.book.id)).toEqual([both.book.id, titleOnly.book.id, authorOnly.book.id]);
+    expect(result.hits.map(hit => hit.matchedFields)).toEqual([["title"], ["title"], ["author"]]);
+
+    const scores = result.hits.map(hit => hit.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(new Set(scores).size).toBe(3);
+  });
+
+  test("Verify matching is case-insensitive and whole words outrank partial matches", async ({ library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const term = uniqueTerm();
+
+    const partial = await library.createBook(aBook().withTitle(`Atlas ${term}extended`).build());
+    const whole = await library.createBook(aBook().withTitle(`Atlas ${term}`).build());
+    assertOk(partial, "createBook");
+    assertOk(whole, "createBook");
+
+    const result = await searchBooks(apiRequestContext, term.toUpperCase());
+    assertOk(result, "searchBooks");
+    expect(result.hits.map(hit => hit.book.id)).toEqual([whole.book.id, partial.book.id]);
+  });
+
+  test("Verify an ISBN matches regardless of hyphens", async ({ library }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const payload = aBook().isbn13().build();
+    const created = await library.createBook(payload);
+    assertOk(created, "createBook");
+
+    const result = await searchBooks(apiRequestContext, String(payload.isbn).replace(/-/g, ""));
+    assertOk(result, "searchBooks");
+    expect(result.hits[0]?.book.id).toBe(created.book.id);
+    expect(result.hits[0]?.matchedFields).toContain("isbn");
+  });
+
+  test("Verify a query without matches returns an empty result", async () => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const term = uniqueTerm();
+
+    const result = await searchBooks(apiRequestContext, term);
+    assertOk(result, "searchBooks");
+    expect(result.body).toEqual({ success: true, query: term, count: 0, data: [] });
+  });
+
+  test("Verify a blank query is rejected with 400", async () => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const result = await searchBooks(apiRequestContext, "   ");
+    assertFailure(result, "searchBooks");
+    expect(result.status).toBe(400);
+    validateOrThrow(BadRequestErrorSchema, result.body, "searchBooks 400 response");
+  });
+});
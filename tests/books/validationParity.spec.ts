@@ -0,0 +1,90 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import { patchBook, updateBook } from "../../src/services/books.service";
+import { config } from "../../src/utils/config";
+import {
+  BookMergePatchSchema,
+  CreateBookPayloadSchema,
+  UpdateBookPayloadSchema,
+} from "../../src/schemas/book.schema";
+import {
+  bookMergePatchArb,
+  createBookPayloadArb,
+  updateBookPayloadArb,
+} from "../../src/builders/book-payload.arbitraries";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { assertSchemaParity } from "../../src/utils/property-helpers";
+import { assertOk } from "../../src/utils/result-helpers";
+
+test.describe("Validation parity - client schemas vs server rules", () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify POST /books accepts exactly the payloads CreateBookPayloadSchema accepts", async ({
+    library,
+    seed,
+  }) => {
+    await assertSchemaParity(
+      createBookPayloadArb,
+      CreateBookPayloadSchema,
+      (payload) => library.createBook(payload),
+      { seed }
+    );
+  });
+
+  test("Verify PUT /books/:id accepts exactly the payloads UpdateBookPayloadSchema accepts", async ({
+    token,
+    library,
+    seed,
+  }) => {
+    if (!apiRequestContext)
+      throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    const createResult = await library.createBook(aBook().build());
+    expect(createResult.status).toBe(201);
+    assertOk(createResult, "createBook");
+    const id = createResult.book.id;
+
+    await assertSchemaParity(
+      updateBookPayloadArb,
+      UpdateBookPayloadSchema,
+      (payload) => updateBook(api, id, payload, token),
+      { seed }
+    );
+  });
+
+  test("Verify PATCH /books/:id accepts exactly the patches BookMergePatchSchema accepts", async ({
+    token,
+    library,
+    seed,
+  }) => {
+    if (!apiRequestContext)
+      throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+
+    const createResult = await library.createBook(aBook().build());
+    expect(createResult.status).toBe(201);
+    assertOk(createResult, "createBook");
+    const id = createResult.book.id;
+
+    await assertSchemaParity(
+      bookMergePatchArb,
+      BookMergePatchSchema,
+      (patch) => patchBook(api, id, patch, token),
+      { seed }
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import { test, expect } from "@playwright/test";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { hasValidIsbnChecksum } from "../../src/utils/isbn";
+import { SeededRandom } from "../../src/utils/random";
+
+test.describe("BookPayloadBuilder", () => {
+  test("Verify the same seed always builds the same payload", () => {
+    const first = aBook(new SeededRandom(42)).isbn10().build();
+    const second = aBook(new SeededRandom(42)).isbn10().build();
+    const other = aBook(new SeededRandom(43)).isbn10().build();
+
+    expect(second).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+
+  test("Verify generated ISBN-10 and ISBN-13 values are checksum-correct", () => {
+    const random = new SeededRandom(7);
+
+    for (let i = 0; i < 200; i++) {
+      const isbn10 = aBook(random).isbn10().build().isbn!;
+      const isbn13 = aBook(random).isbn13().build().isbn!;
+
+      expect(isbn10.replace(/-/g, ""), isbn10).toMatch(/^\d{10}$/);
+      expect(hasValidIsbnChecksum(isbn10), isbn10).toBe(true);
+      expect(isbn13.replace(/-/g, ""), isbn13).toMatch(/^97[89]\d{10}$/);
+      expect(hasValidIsbnChecksum(isbn13), isbn13).toBe(true);
+    }
+  });
+
+  test("Verify mutations override, invalidate and remove fields", () => {
+    const random = new SeededRandom(1);
+
+    expect(aBook(random).withTitle("Clean Code").build().title).toBe("Clean Code");
+    expect(aBook(random).invalidIsbn().build().isbn!.replace(/[-\s]/g, "")).not.toMatch(/^(?:\d{10}|\d{13})$/);
+
+    const withoutAuthor = aBook(random).withoutField("author").build();
+    expect(withoutAuthor).not.toHaveProperty("author");
+    expect(withoutAuthor).toHaveProperty("title");
+  });
+});
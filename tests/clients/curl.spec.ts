@@ -0,0 +1,70 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import { curlScript, toCurl, type SentRequest } from "../../src/clients/curl";
+import { addRequestOptions } from "../../src/clients/http.helpers";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+
+const admin = config.credentials.admin;
+
+const run = promisify(execFile);
+
+/** A request the way the clients send it. */
+const sent = (method: string, url: string, data?: unknown, token?: string, extra: Partial<SentRequest> = {}) => ({
+  method,
+  url,
+  headers: addRequestOptions(data, token).headers ?? {},
+  ...(data !== undefined && { data }),
+  outcome: 200,
+  ...extra,
+});
+
+test.describe("curl reproductions", () => {
+  test("Verify a configured user's token and password are replaced by shell variables", async ({ token }) => {
+    const create = toCurl(sent("POST", "/books", { title: "It's" }, token));
+    expect(create).not.toContain(token);
+    expect(create).toContain(`-H 'Authorization: Bearer '"$ADMIN_TOKEN"`);
+    expect(create).toContain(`--data-raw '{"title":"It'\\''s"}'`);
+
+    const login = toCurl(sent("POST", "/auth/login", admin));
+    expect(login).not.toContain(admin.password);
+    expect(login).toContain(`"password":"'"$AUTH_PASSWORD"'"}'`);
+  });
+
+  test("Verify deliberately bad credentials are reproduced as sent", () => {
+    const login = toCurl(sent("POST", "/auth/login", { username: admin.username, password: "wrong" }));
+    expect(login).toContain(`"password":"wrong"`);
+
+    const tampered = toCurl(sent("GET", "/books", undefined, "not-a-jwt"));
+    expect(tampered).toContain("-H 'Authorization: Bearer not-a-jwt'");
+  });
+
+  test("Verify query parameters, CSV bodies and HEAD requests are rendered", () => {
+    expect(toCurl(sent("GET", "/books", undefined, undefined, { params: { author: "Le Guin", page: 2 } })))
+      .toContain(`curl -sS -i -X GET "$BASE_URL/books?author=Le+Guin&page=2"`);
+    expect(toCurl({ method: "POST", url: "/books/import", headers: {}, data: "title\nA", outcome: 201 }))
+      .toContain("--data-binary 'title\nA'");
+    expect(toCurl({ method: "HEAD", url: "/books/1", headers: {}, outcome: 200 }))
+      .toBe(`curl -sS -i --head "$BASE_URL/books/1"`);
+  });
+
+  test("Verify the script logs in and replays the requests against the API", async ({ token, library }) => {
+    const script = curlScript(
+      [sent("POST", "/books", aBook().build(), token, { outcome: 201 }), sent("GET", "/books/1")],
+      config.baseURL,
+      "replay"
+    );
+    expect(script).toContain("# Export AUTH_PASSWORD first");
+    expect(script).not.toContain(token);
+
+    const { stdout } = await run("sh", ["-c", script], { env: { ...process.env, AUTH_PASSWORD: admin.password } });
+    const [created, fetched] = stdout.split(/HTTP\/1\.1 (?=\d{3} )/).slice(1);
+    expect(created).toMatch(/^201 /);
+    expect(fetched).toMatch(/^200 /);
+
+    // The replayed POST created a real book
+    const id = /"id":"?(\w+)/.exec(created ?? "")?.[1];
+    if (id) library.track(id);
+  });
+});
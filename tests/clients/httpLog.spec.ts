@@ -0,0 +1,96 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import {
+  REDACTED,
+  redactBody,
+  redactHeaders,
+  startHttpLog,
+  stopHttpLog,
+  type HttpExchange,
+} from "../../src/clients/http-log";
+import { authenticate } from "../../src/services/auth.service";
+import { getBookById } from "../../src/services/books.service";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import { assertOk } from "../../src/utils/result-helpers";
+
+test.describe("HTTP exchange log", () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify credentials are redacted from headers and bodies at any depth", () => {
+    expect(redactHeaders({ Authorization: "Bearer abc", "Content-Type": "application/json" })).toEqual({
+      Authorization: REDACTED,
+      "Content-Type": "application/json",
+    });
+    expect(
+      redactBody({ username: "admin", password: "secret", users: [{ Password: "x", token: "t" }], n: 1 })
+    ).toEqual({ username: "admin", password: REDACTED, users: [{ Password: REDACTED, token: REDACTED }], n: 1 });
+    expect(redactBody("password=secret")).toBe("password=secret");
+  });
+
+  test("Verify every call of the test is recorded with status, bodies and duration", async ({ library, httpLog }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const payload = aBook().build();
+
+    const created = await library.createBook(payload);
+    assertOk(created, "createBook");
+
+    const exchange = httpLog.find(e => e.method === "POST" && e.url.endsWith("/books"));
+    expect(exchange).toBeDefined();
+    expect(exchange?.attempt).toBe(1);
+    expect(exchange?.durationMs).toBeGreaterThanOrEqual(0);
+    expect(exchange?.request.headers["Authorization"]).toBe(REDACTED);
+    expect(exchange?.request.body).toEqual(payload);
+    expect(exchange?.response?.status).toBe(201);
+    expect(exchange?.response?.body).toMatchObject({ data: { id: created.book.id } });
+  });
+
+  test("Verify the login password and the issued token never reach the log", async ({ httpLog }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const auth = await authenticate(apiRequestContext, config.credentials.admin);
+    assertOk(auth, "authenticate");
+
+    const logged = JSON.stringify(httpLog);
+    expect(logged).toContain("/auth/login");
+    expect(logged).not.toContain(config.credentials.admin.password);
+    expect(logged).not.toContain(auth.token);
+  });
+
+  test("Verify exchanges are appended to the JSONL file as one line each", async () => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "http-log-"));
+    const jsonlFile = path.join(dir, "worker-0.jsonl");
+
+    try {
+      startHttpLog({ jsonlFile, testTitle: "jsonl test" });
+      await getBookById(apiRequestContext, "1");
+      await getBookById(apiRequestContext, "does-not-exist");
+      stopHttpLog();
+
+      const lines = (await fs.readFile(jsonlFile, "utf8")).trim().split("\n");
+      const entries = lines.map(line => JSON.parse(line) as HttpExchange & { test: string });
+      expect(entries.map(e => [e.test, e.method, e.response?.status])).toEqual([
+        ["jsonl test", "GET", 200],
+        ["jsonl test", "GET", 404],
+      ]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,62 @@
+import { test, expect } from "@playwright/test";
+import fc from "fast-check";
+import {
+  backoffDelay,
+  isRetryableRequest,
+  parseRetryAfter,
+  type BackoffStrategy,
+} from "../../src/clients/retry";
+
+const policy = (backoff: BackoffStrategy, jitter = 0) => ({
+  backoff,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  jitter,
+});
+
+test.describe("Retry policy helpers", () => {
+  for (const [backoff, delays] of [
+    ["exponential", [100, 200, 400, 800, 1000]],
+    ["linear", [100, 200, 300, 400, 500]],
+    ["fixed", [100, 100, 100, 100, 100]],
+  ] as const) {
+    test(`Verify ${backoff} backoff grows as expected and is capped at maxDelayMs`, () => {
+      expect([1, 2, 3, 4, 5].map(attempt => backoffDelay(policy(backoff), attempt))).toEqual(delays);
+    });
+  }
+
+  test("Verify jitter keeps every delay between (1 - jitter) * delay and delay", () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<BackoffStrategy>("exponential", "linear", "fixed"),
+        fc.integer({ min: 1, max: 10 }),
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        fc.double({ min: 0, max: 1, maxExcluded: true, noNaN: true }),
+        (backoff, attempt, jitter, random) => {
+          const base = backoffDelay(policy(backoff), attempt);
+          const jittered = backoffDelay(policy(backoff, jitter), attempt, () => random);
+          return jittered <= base && jittered >= Math.floor(base * (1 - jitter));
+        }
+      )
+    );
+  });
+
+  test("Verify Retry-After accepts delay-seconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+
+    expect(parseRetryAfter("3", now)).toBe(3000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+
+  test("Verify POST is only retryable with an Idempotency-Key header", () => {
+    expect(isRetryableRequest("post")).toBe(false);
+    expect(isRetryableRequest("post", { "Content-Type": "application/json" })).toBe(false);
+    expect(isRetryableRequest("post", { "idempotency-key": "abc" })).toBe(true);
+    for (const method of ["get", "head", "put", "patch", "delete"] as const) {
+      expect(isRetryableRequest(method)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import * as fs from "fs";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import { BooksClient } from "../../src/clients/books.client";
+import { rawRequest } from "../../src/services/books.service";
+import { OPERATIONS, type HttpMethod } from "../../src/openapi/document";
+import { OPENAPI_FILE, renderOpenApiDocument } from "../../src/openapi/generate";
+import { config } from "../../src/utils/config";
+import { assertOk } from "../../src/utils/result-helpers";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+
+type DocumentOperation = {
+  operationId: string;
+  security?: unknown[];
+  parameters?: { name: string; in: string; example?: unknown }[];
+  requestBody?: { content: Record<string, { example?: unknown }> };
+  responses: Record<string, { headers?: Record<string, unknown>; content: Record<string, unknown> }>;
+};
+
+// The committed document; the first test proves it is what the mock serves
+const document = JSON.parse(fs.readFileSync(OPENAPI_FILE, "utf8")) as {
+  paths: Record<string, Record<HttpMethod, DocumentOperation>>;
+};
+
+/** The request an operation's examples describe: path, query and body. */
+function exampleRequest(path: string, operation: DocumentOperation) {
+  let url = path;
+  const query = new URLSearchParams();
+  for (const parameter of operation.parameters ?? []) {
+    if (parameter.example === undefined) continue;
+    if (parameter.in === "path") url = url.replace(`{${parameter.name}}`, String(parameter.example));
+    if (parameter.in === "query") query.set(parameter.name, String(parameter.example));
+  }
+
+  const [contentType, media] =
+    Object.entries(operation.requestBody?.content ?? {}).find(([, m]) => m.example !== undefined) ?? [];
+  const data =
+    media?.example === undefined
+      ? undefined
+      : JSON.parse(JSON.stringify(media.example).replace("<password>", config.credentials.admin.password));
+
+  return { url: query.size ? `${url}?${query}` : url, contentType, data };
+}
+
+// Operations change the catalog, so each runs against a fresh store in the "store" project
+test.describe("Contract - OpenAPI document", { tag: "@store" }, () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify the served document is the one generated from the current schemas", async () => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const served = await rawRequest(apiRequestContext, "get", "/openapi.json");
+    assertOk(served, "GET /openapi.json");
+    // On failure: run `npm run openapi` and commit book-library-api-mock/openapi.json
+    expect(served.body).toEqual(JSON.parse(renderOpenApiDocument()));
+    expect(served.body).toEqual(document);
+  });
+
+  test("Verify every public route the mock lists is documented", async () => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const notFound = await rawRequest(apiRequestContext, "get", "/no-such-route");
+    const listed = (notFound.body as { availableEndpoints: string[] }).availableEndpoints
+      .filter(route => !/ \/(__admin|openapi\.json|$)/.test(route))
+      .map(route => route.replace(/:(\w+)/g, "{$1}"));
+
+    const documented = Object.entries(document.paths).flatMap(([path, operations]) =>
+      Object.keys(operations).map(method => `${method.toUpperCase()} ${path}`)
+    );
+    expect(documented.sort()).toEqual(listed.sort());
+  });
+
+  for (const [path, operations] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(operations) as [HttpMethod, DocumentOperation][]) {
+      test(`Verify ${method.toUpperCase()} ${path} (${operation.operationId}) answers its example as documented`, async ({
+        token,
+        freshLibrary,
+      }) => {
+        if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+        expect(freshLibrary.books.length).toBeGreaterThan(0);
+        const { url, contentType, data } = exampleRequest(path, operation);
+
+        const res = await BooksClient.requestRaw(apiRequestContext, method, url, {
+          data,
+          ...(operation.security && { token }),
+          ...(contentType && { headers: { "Content-Type": contentType } }),
+        });
+
+        // Examples are valid requests, so they get the first documented success
+        const status = res.status();
+        const success = Object.keys(operation.responses).find(code => code.startsWith("2"));
+        expect(String(status), await res.text()).toBe(success);
+
+        const documented = operation.responses[String(status)];
+        if (!documented) throw new Error(`${status} is not documented for ${operation.operationId}`);
+        expect(Object.keys(documented.content)).toContain(res.headers()["content-type"]?.split(";")[0]);
+        for (const header of Object.keys(documented.headers ?? {})) {
+          expect(res.headers()[header.toLowerCase()], `${header} header`).toBeTruthy();
+        }
+
+        const schema = OPERATIONS[path]?.[method]?.responses[status];
+        if (!schema) throw new Error(`No schema for ${operation.operationId} ${status}`);
+        validateOrThrow(schema, await res.json(), `${operation.operationId} ${status} response`);
+      });
+    }
+  }
+});
@@ -0,0 +1,90 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import { getBookById, listBooks } from "../../src/services/books.service";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { config } from "../../src/utils/config";
+import { assertOk } from "../../src/utils/result-helpers";
+
+test.describe.serial("Library fixture - automatic cleanup", () => {
+  let apiRequestContext: APIRequestContext | null;
+  let createdId: string | undefined;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify books created through the library are tracked", async ({ library }) => {
+    const createResult = await library.createBook(aBook().build());
+    expect(createResult.status).toBe(201);
+    assertOk(createResult, "createBook");
+
+    createdId = createResult.book.id;
+    expect(library.createdIds).toEqual([createdId]);
+  });
+
+  test("Verify tracked books are deleted after the test that created them", async () => {
+    if (!apiRequestContext)
+      throw new Error("apiRequestContext not initialized");
+    if (!createdId) throw new Error("previous test did not create a book");
+
+    const getResult = await getBookById(apiRequestContext, createdId);
+    expect(getResult.status).toBe(404);
+  });
+});
+
+// Resets the whole catalog, so it runs in the "store" project
+test.describe.serial("Library fixture - fresh store", { tag: "@store" }, () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify a fresh library starts from the seed catalog", async ({ freshLibrary }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    expect(freshLibrary.books.map(book => book.id)).toEqual(["1", "2", "3", "4", "5", "6", "7"]);
+
+    const listed = await listBooks(apiRequestContext);
+    assertOk(listed, "listBooks");
+    expect(listed.books).toEqual(freshLibrary.books);
+  });
+
+  test("Verify seeded books replace the catalog for one test only", async ({ freshLibrary }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const seeded = await freshLibrary.seed([aBook().withTitle("Only Book").build()]);
+    expect(seeded).toHaveLength(1);
+    expect(freshLibrary.books).toEqual(seeded);
+
+    const created = await freshLibrary.createBook(aBook().build());
+    assertOk(created, "createBook");
+    expect(created.book.id).toBe("2");
+
+    const listed = await listBooks(apiRequestContext);
+    assertOk(listed, "listBooks");
+    expect(listed.books.map(book => book.title)).toContain("Only Book");
+    expect(listed.body.pagination.total).toBe(2);
+  });
+
+  test("Verify the store is restored after a fresh library test", async () => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const listed = await listBooks(apiRequestContext);
+    assertOk(listed, "listBooks");
+    expect(listed.books.map(book => book.title)).not.toContain("Only Book");
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  test,
+  expect,
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { config } from "../../src/utils/config";
+import { authenticate } from "../../src/services/auth.service";
+import { createBook, getBookById, updateBook } from "../../src/services/books.service";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { startMockServer, type MockServer } from "../../src/utils/mock-server";
+import { assertOk } from "../../src/utils/result-helpers";
+
+/** Runs `fn` against a freshly started mock server and always stops it. */
+async function withServer<T>(
+  env: Record<string, string>,
+  fn: (request: APIRequestContext) => Promise<T>
+): Promise<T> {
+  const server: MockServer = await startMockServer({ env });
+  const request = await playwrightRequest.newContext({ baseURL: server.baseURL });
+  try {
+    return await fn(request);
+  } finally {
+    await request.dispose();
+    await server.stop();
+  }
+}
+
+async function login(request: APIRequestContext): Promise<string> {
+  const auth = await authenticate(request, config.credentials.admin);
+  assertOk(auth, "authenticate");
+  return auth.token;
+}
+
+test.describe("Mock server - storage", () => {
+  let dataDir: string | null = null;
+
+  test.beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "book-library-"));
+  });
+
+  test.afterEach(async () => {
+    if (dataDir) await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("Verify books written with file storage survive a server restart", async () => {
+    if (!dataDir) throw new Error("dataDir not initialized");
+    const env = { STORAGE: "file", STORAGE_FILE: path.join(dataDir, "books.json") };
+
+    const written = await withServer(env, async request => {
+      const token = await login(request);
+      const created = await createBook(request, aBook().build(), token);
+      assertOk(created, "createBook");
+      const updated = await updateBook(request, created.book.id, { available: false }, token);
+      assertOk(updated, "updateBook");
+      return updated;
+    });
+
+    await withServer(env, async request => {
+      const fetched = await getBookById(request, written.book.id);
+      assertOk(fetched, "getBookById");
+      expect(fetched.book).toEqual(written.book);
+      expect(fetched.etag).toBe(written.etag);
+
+      // Ids keep counting from where the previous run stopped
+      const next = await createBook(request, aBook().build(), await login(request));
+      assertOk(next, "createBook");
+      expect(Number(next.book.id)).toBeGreaterThan(Number(written.book.id));
+    });
+  });
+
+  test("Verify books written with memory storage are gone after a restart", async () => {
+    const env = { STORAGE: "memory" };
+
+    const createdId = await withServer(env, async request => {
+      const created = await createBook(request, aBook().build(), await login(request));
+      assertOk(created, "createBook");
+      return created.book.id;
+    });
+
+    await withServer(env, async request => {
+      const fetched = await getBookById(request, createdId);
+      expect(fetched.status).toBe(404);
+    });
+  });
+});
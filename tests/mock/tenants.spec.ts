@@ -0,0 +1,70 @@
+import {
+  request as playwrightRequest,
+  type APIRequestContext,
+} from "@playwright/test";
+import { test, expect } from "../../src/fixtures/library.fixture";
+import { TENANT_HEADER, getTenant, withTenant } from "../../src/clients/tenant";
+import { listBooks, rawRequest } from "../../src/services/books.service";
+import { aBook } from "../../src/builders/book-payload.builder";
+import { BadRequestErrorSchema } from "../../src/schemas/error.schema";
+import { config } from "../../src/utils/config";
+import { validateOrThrow } from "../../src/utils/schema-helpers";
+import { assertFailure, assertOk } from "../../src/utils/result-helpers";
+
+test.describe("Mock server - tenant stores", () => {
+  let apiRequestContext: APIRequestContext | null;
+
+  test.beforeAll(async () => {
+    apiRequestContext = await playwrightRequest.newContext({
+      baseURL: config.baseURL,
+    });
+  });
+
+  test.afterAll(async () => {
+    if (apiRequestContext) await apiRequestContext.dispose();
+  });
+
+  test("Verify a new tenant starts from the seed catalog and never sees another tenant's books", async ({
+    library,
+  }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    const api = apiRequestContext;
+    const run = Date.now().toString(36);
+
+    const created = await withTenant(`${run}-a`, () => library.createBook(aBook().build()));
+    assertOk(created, "createBook");
+
+    const [own, other] = await Promise.all([
+      withTenant(`${run}-a`, () => listBooks(api)),
+      withTenant(`${run}-b`, () => listBooks(api)),
+    ]);
+    assertOk(own, "listBooks tenant a");
+    assertOk(other, "listBooks tenant b");
+    expect(own.books.map(b => b.id)).toEqual(["1", "2", "3", "4", "5", "6", "7", created.book.id]);
+    expect(other.books.map(b => b.id)).toEqual(["1", "2", "3", "4", "5", "6", "7"]);
+  });
+
+  test("Verify every client request carries the test's tenant", async ({ tenant, workerTenant, httpLog }) => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+    test.skip(config.features.tenantIsolation !== "test", "TENANT_ISOLATION is not test");
+
+    await listBooks(apiRequestContext);
+
+    expect(tenant).toBe(getTenant());
+    expect(tenant).not.toBe(workerTenant);
+    expect(httpLog.map(e => e.request.headers[TENANT_HEADER])).toEqual([tenant]);
+  });
+
+  test("Verify an invalid tenant id is rejected with 400", async () => {
+    if (!apiRequestContext) throw new Error("apiRequestContext not initialized");
+
+    const result = await rawRequest(apiRequestContext, "get", "/books", {
+      headers: { [TENANT_HEADER]: "not a tenant!" },
+    });
+
+    assertFailure(result, "listBooks with invalid tenant");
+    expect(result.status).toBe(400);
+    const body = validateOrThrow(BadRequestErrorSchema, result.body, "invalid tenant response");
+    expect(body.message).toContain("X-Tenant-Id");
+  });
+});
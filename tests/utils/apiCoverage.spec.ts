@@ -0,0 +1,63 @@
+import { test, expect } from "@playwright/test";
+import {
+  buildCoverageReport,
+  matchRoute,
+  renderCoverageHtml,
+  routesFrom,
+} from "../../src/utils/api-coverage";
+
+const ENDPOINTS = [
+  "GET /books",
+  "GET /books/search",
+  "GET /books/:id",
+  "DELETE /books/:id",
+  "POST /auth/login",
+];
+
+const OPENAPI_PATHS = {
+  "/books/{id}": { get: { responses: { "200": {}, "404": {} } } },
+  "/auth/login": { post: { responses: { "200": {}, "401": {} } } },
+};
+
+test.describe("API coverage", () => {
+  test("Verify routes take their documented statuses from the OpenAPI paths", () => {
+    const routes = routesFrom(ENDPOINTS, OPENAPI_PATHS);
+
+    expect(routes.find(r => r.method === "GET" && r.template === "/books/:id")?.documentedStatuses).toEqual([200, 404]);
+    expect(routes.find(r => r.method === "DELETE")?.documentedStatuses).toEqual([]);
+  });
+
+  test("Verify paths are normalized to the most specific route template", () => {
+    const routes = routesFrom(ENDPOINTS);
+
+    expect(matchRoute(routes, "get", "/books/42")?.template).toBe("/books/:id");
+    expect(matchRoute(routes, "GET", "/books/search")?.template).toBe("/books/search");
+    expect(matchRoute(routes, "DELETE", "/books/search")?.template).toBe("/books/:id");
+    expect(matchRoute(routes, "GET", "/books/42/extra")).toBeUndefined();
+    expect(matchRoute(routes, "PATCH", "/books/42")).toBeUndefined();
+  });
+
+  test("Verify the report counts statuses per route and lists uncovered routes and statuses", () => {
+    const report = buildCoverageReport(routesFrom(ENDPOINTS, OPENAPI_PATHS), [
+      { method: "GET", path: "/books/1", status: 200 },
+      { method: "GET", path: "/books/2", status: 200 },
+      { method: "GET", path: "/books/1", status: 500 },
+      { method: "POST", path: "/auth/login", status: null },
+      { method: "GET", path: "/nope", status: 404 },
+    ]);
+
+    const byId = report.routes.find(r => r.method === "GET" && r.template === "/books/:id");
+    expect(byId).toMatchObject({ hits: 3, statuses: { "200": 2, "500": 1 }, missingStatuses: [404] });
+    expect(report.routes.find(r => r.template === "/auth/login")).toMatchObject({
+      statuses: { error: 1 },
+      missingStatuses: [200, 401],
+    });
+    expect(report.summary).toEqual({ routes: 5, coveredRoutes: 2, documentedStatuses: 4, coveredStatuses: 1 });
+    expect(report.unmatched).toEqual([{ method: "GET", path: "/nope", hits: 1, statuses: { "404": 1 } }]);
+
+    const html = renderCoverageHtml(report);
+    expect(html).toContain('<tr class="uncovered">');
+    expect(html).toContain('<span class="status missing">404</span>');
+    expect(html).toContain('<span class="status undocumented">500 &times;1</span>');
+  });
+});
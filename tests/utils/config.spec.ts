@@ -0,0 +1,59 @@
+import { test, expect } from "@playwright/test";
+import { parseConfig } from "../../src/utils/config";
+
+const PASSWORDS = {
+  AUTH_PASSWORD: "admin-secret",
+  AUTH_VIEWER_PASSWORD: "viewer-secret",
+  AUTH_LIBRARIAN_PASSWORD: "librarian-secret",
+};
+
+test.describe("Configuration", () => {
+  test("Verify variables are parsed into typed credentials, timeouts and toggles with defaults", () => {
+    const config = parseConfig({
+      TEST_ENV: "ci",
+      BASE_URL: "http://localhost:4000",
+      ...PASSWORDS,
+      RETRY_MAX_ATTEMPTS: "5",
+      HTTP_LOG: "all",
+      HTTP_LOG_DIR: "",
+    });
+
+    expect(config.testEnv).toBe("ci");
+    expect(config.baseURL).toBe("http://localhost:4000");
+    expect(config.credentials.admin).toEqual({ username: "admin", password: "admin-secret" });
+    expect(config.credentials.viewer).toEqual({ username: "viewer", password: "viewer-secret" });
+    expect(config.timeouts).toEqual({ testMs: 30000, expectMs: 5000, requestMs: 30000, tokenRefreshMarginSeconds: 60 });
+    expect(config.retry).toEqual({ maxAttempts: 5, backoff: "exponential", baseDelayMs: 100, maxDelayMs: 2000 });
+    expect(config.features).toEqual({
+      mockServer: "off",
+      tenantIsolation: "test",
+      schemaValidation: "strict",
+      httpLog: "all",
+      httpLogDir: undefined,
+      curlReproLimit: 10,
+    });
+  });
+
+  test("Verify every missing or invalid variable is reported at once with the environment's file", () => {
+    expect(() =>
+      parseConfig({ TEST_ENV: "staging", BASE_URL: "not a url", AUTH_PASSWORD: "", RETRY_BACKOFF: "random" })
+    ).toThrow(
+      new RegExp(
+        [
+          "configuration for TEST_ENV=staging, see config/staging\\.env",
+          "- BASE_URL: BASE_URL must be an absolute URL",
+          "- AUTH_PASSWORD: AUTH_PASSWORD is required",
+          "- AUTH_VIEWER_PASSWORD: AUTH_VIEWER_PASSWORD is required",
+          "- AUTH_LIBRARIAN_PASSWORD: AUTH_LIBRARIAN_PASSWORD is required",
+          "- RETRY_BACKOFF: ",
+        ].join("[^]*")
+      )
+    );
+  });
+
+  test("Verify an unknown TEST_ENV is rejected", () => {
+    expect(() => parseConfig({ TEST_ENV: "prod", BASE_URL: "http://localhost:3000", ...PASSWORDS })).toThrow(
+      "TEST_ENV: TEST_ENV must be one of dev, ci, staging, local-mock"
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { test, expect } from "@playwright/test";
+import fc from "fast-check";
+import { bookArb } from "../../src/builders/book-payload.arbitraries";
+import {
+  booksFromCsv,
+  booksToCsv,
+  parseCsv,
+  serializeCsv,
+} from "../../src/utils/csv";
+
+test.describe("CSV parser/serializer", () => {
+  test("Verify quoted fields, escaped quotes and embedded line breaks are parsed", () => {
+    const text = 'a,"b, with comma","say ""hi"""\r\n"multi\nline",,last\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["a", "b, with comma", 'say "hi"'],
+      ["multi\nline", "", "last"],
+    ]);
+  });
+
+  test("Verify a missing trailing line break and LF-only endings are accepted", () => {
+    expect(parseCsv("a,b\nc,d")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  test("Verify an unterminated quoted field throws", () => {
+    expect(() => parseCsv('a,"unterminated\n')).toThrow(/unterminated/);
+  });
+
+  test("Verify only fields that need it are quoted", () => {
+    expect(serializeCsv([["plain", "with,comma", 'with "quote"', undefined, 1999, true]])).toBe(
+      'plain,"with,comma","with ""quote""",,1999,true\r\n'
+    );
+  });
+
+  test("Verify any rows survive serialize then parse unchanged", () => {
+    const rowsArb = fc.array(fc.array(fc.string({ maxLength: 20 }), { minLength: 1, maxLength: 6 }), {
+      minLength: 1,
+      maxLength: 10,
+    });
+
+    fc.assert(
+      fc.property(rowsArb, rows => {
+        expect(parseCsv(serializeCsv(rows))).toEqual(rows);
+      })
+    );
+  });
+
+  test("Verify books survive booksToCsv then booksFromCsv unchanged", () => {
+    fc.assert(
+      fc.property(fc.array(bookArb, { maxLength: 10 }), books => {
+        expect(booksFromCsv(booksToCsv(books))).toEqual(books);
+      })
+    );
+  });
+
+  test("Verify an invalid book row is reported with its row number", () => {
+    const text = "id,title,author,isbn,publishedYear,available\r\n1,Title,Author,,1999,true\r\n2,,Author,,1999,maybe\r\n";
+
+    expect(() => booksFromCsv(text)).toThrow(/CSV row 2/);
+  });
+});
@@ -0,0 +1,41 @@
+import { test, expect } from "@playwright/test";
+import { z } from "zod";
+import { validateResponse, type ResponseSchemas } from "../../src/utils/response-validation";
+
+// Trims on parse, so a parsed body can be told apart from the raw one
+const SCHEMAS: ResponseSchemas = {
+  200: z.object({ title: z.string().trim().min(1) }),
+};
+
+test.describe("Response validation modes", () => {
+  test("Verify strict mode parses matching bodies and throws on a mismatch", async () => {
+    await expect(validateResponse(SCHEMAS, 200, { title: " Dune " }, "getBook", "strict")).resolves.toEqual({
+      title: "Dune",
+    });
+    await expect(validateResponse(SCHEMAS, 200, { title: 42 }, "getBook", "strict")).rejects.toThrow(
+      /getBook 200 response/
+    );
+  });
+
+  test("Verify warn mode attaches a report to the test and returns the raw body", async () => {
+    const body = { title: 42 };
+
+    await expect(validateResponse(SCHEMAS, 200, body, "getBook", "warn")).resolves.toBe(body);
+
+    const info = test.info();
+    expect(info.annotations).toContainEqual({ type: "schema-validation", description: "getBook 200 response" });
+    const attachment = info.attachments.find(a => a.name === "schema-validation: getBook 200 response");
+    expect(JSON.parse(attachment?.body?.toString() ?? "{}")).toMatchObject({
+      issues: [{ path: "title" }],
+      body,
+    });
+  });
+
+  test("Verify off mode and statuses without a schema skip validation", async () => {
+    const body = { title: 42 };
+
+    await expect(validateResponse(SCHEMAS, 200, body, "getBook", "off")).resolves.toBe(body);
+    await expect(validateResponse(SCHEMAS, 404, body, "getBook", "strict")).resolves.toBe(body);
+    expect(test.info().attachments).toHaveLength(0);
+  });
+});